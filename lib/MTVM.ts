@@ -1,498 +1,746 @@
-import * as ReadLine from 'node:readline/promises';
-import { stdin, stdout } from 'node:process';
+import { HeadlessGui } from "./gui";
+import { GuiSurface, Host, TerminalHost } from "./host";
 
-let input = ReadLine.createInterface({ input: stdin, output: stdout });
+/**
+ * A list of instructions. Each opcode is followed by its operand if it has one, and `if` and `loop` are followed by
+ * their nested instruction lists.
+ */
+export type Code = (number | Code)[];
 
 /**
- * Prompts the user for input and returns the entered value. 
- * 
- * @param message The prompt message
- * 
- * @returns The string entered by the user
+ * The source line of each instruction in a {@link Code} list. Each number or nested list is at the same position as the
+ * instruction or nested list it describes.
  */
-async function prompt(message: string = "") {
-	let response = await input.question(message);
-	return response;
+export type Lines = (number | Lines)[];
+
+/**
+ * A compiled function: its name, the line it was declared on, its parameter count, its local variable count, its body,
+ * and optionally the source lines of its body. Older tapes have a number in place of the name.
+ */
+export type FunctionEntry = [name: string | number, line: number, parameters: number, locals: number, code: Code, lines?: Lines];
+
+/**
+ * A compiled program. The first entry holds the index of the entry function and the end of the data segment, the second
+ * holds the initial memory as address/value pairs, and the rest are the compiled functions.
+ */
+export type Tape = [[entry: number, dataEnd: number], [address: number, value: number][], ...FunctionEntry[]];
+
+/**
+ * The MTVM opcodes.
+ */
+export enum Opcode {
+	push = 1,
+	fetch,
+	store,
+	if,
+	loop,
+	break,
+	return,
+	call,
+	fpplus,
+	add,
+	sub,
+	mul,
+	div,
+	mod,
+	not,
+	and,
+	or,
+	xor,
+	eq,
+	neq,
+	lt,
+	leq,
+	gt,
+	geq,
+	pop,
+	lshift,
+	rshift
 }
 
-/** The virtual memory. */
-var memory: any[] = [];
-memory.length = 65536;
+/** The number of words of virtual memory. */
+export const memorySize = 65536;
+
+/** The number of instructions {@link MTVM.run} executes between yields to the event loop. */
+const yieldInterval = 10000;
+
+/** The function numbers used by older tapes, mapped to their current numbers. */
+let legacyFunctionNumbers: { [key: number]: number } = {
+	[-1]: -101, [-2]: -102, [-5]: -105, [-10]: -106, [-11]: -107, [-12]: -108, [-13]: -201, [-14]: -202, [-15]: -203,
+	[-16]: -204, [-17]: -205, [-18]: -206, [-19]: -109, [-20]: -110, [-21]: -111, [-22]: -207, [-23]: -208, [-24]: -209,
+	[-25]: -103, [-26]: -104, [-27]: -210
+};
 
-/** The number of remaining virtual memory addresses. */
-var space: number;
+/**
+ * An instruction list that is being executed. Function bodies, the branches of an `if` and the bodies of loops each get
+ * their own block.
+ */
+export interface Block {
+	kind: "function" | "if" | "loop";
+	code: Code;
+	pc: number;
 
-startvm()
+	/** The source lines of `code`, if the tape has them. */
+	lines?: Lines;
 
-function push(x) {
-	memory[sp] = x;
-	sp--;
+	/** The index of the function this block belongs to. */
+	function: number;
 }
 
-function pop(x = 0) {
-	sp++
-	return memory[sp]
+/**
+ * Options for watching a program as it runs.
+ */
+export interface MTVMOptions {
+
+	/** Logs every instruction before it is executed, along with the registers and the value on top of the stack. */
+	trace?: boolean;
+
+	/** Counts the instructions executed by each function and on each source line, and logs a summary when the program halts. */
+	profile?: boolean;
+
+	/** Receives the trace and the profile summary. Defaults to standard error, so that they are not mixed with the output of the program. */
+	log?: (text: string) => void;
 }
 
-function a2s(x) {
-	s = ""
-	while(memory[x] != 0) {
-		s += String.fromCharCode(memory[x])
-		x++
-	}
-	return s
+/**
+ * The instructions executed by a program, counted while it runs with {@link MTVMOptions.profile}.
+ */
+export interface Profile {
+
+	/** The number of instructions executed by each function, indexed by function number. */
+	functions: number[];
+
+	/** The number of times each function was called, indexed by function number. */
+	calls: number[];
+
+	/** The number of instructions executed on each source line, if the tape has source lines. */
+	lines: Map<number, number>;
 }
 
-function leval(l) {
-	pc = 0
-	while(pc >= 0) {
-		pc = evaluate(l, pc)
+/** The number of source lines listed in the profile summary. */
+const profiledLines = 20;
+
+/**
+ * The Tranquility virtual machine. Each instance runs one tape and owns its memory and registers.
+ */
+export default class MTVM {
+
+	/** The virtual memory. */
+	memory: number[];
+
+	/** The stack pointer. The stack grows downward from the top of memory. */
+	sp: number;
+
+	/** The frame pointer of the function being executed. */
+	fp: number;
+
+	/** The first unallocated address after the data segment. */
+	edata: number;
+
+	/** The blocks being executed, innermost last. The machine has halted when this is empty. */
+	blocks: Block[];
+
+	/** The instructions executed since the last reset. Only counted when profiling. */
+	profile: Profile;
+
+	private timers: Map<number, NodeJS.Timeout>;
+	private timernum: number;
+
+	/** Whether the program has drawn on the GUI, whose widgets can call back into it until the program is stopped. */
+	private drawn: boolean;
+
+	/** Called once the program has settled or is stopped. */
+	private settledListeners: (() => void)[] = [];
+
+	/** Serializes the main program and callbacks so that only one of them uses the stack at a time. */
+	private queue: Promise<unknown> = Promise.resolve();
+
+	/**
+	 * Creates a new virtual machine and loads a tape into it.
+	 *
+	 * @param tape The parsed tape to run
+	 * @param host The environment the built-in functions use for input, output and the GUI
+	 * @param options Whether to trace and profile the program
+	 */
+	constructor(public readonly tape: Tape, public readonly host: Host = new TerminalHost(new HeadlessGui()), public readonly options: MTVMOptions = {}) {
+		this.reset();
 	}
-	return pc
-}
 
-async function call(n) {
-	// Convert the old numbering to the new
-	if (n > -100) {
-		switch(n) {
-		case -1: n = -101; break;
-		case -2: n = -102; break;
-		// case -3: n = -103: break;
-		// case -4: n = -104; break;
-		case -5: n = -105; break;
-		case -10: n = -106; break;
-		case -11: n = -107; break;
-		case -12: n = -108; break;
-		case -13: n = -201; break;
-		case -14: n = -202; break;
-		case -15: n = -203; break;
-		case -16: n = -204; break;
-		case -17: n = -205; break;
-		case -18: n = -206; break;
-		case -19: n = -109; break;
-		case -20: n = -110; break;
-		case -21: n = -111; break;
-		case -22: n = -207; break;
-		case -23: n = -208; break;
-		case -24: n = -209; break;
-		case -25: n = -103; break;
-		case -26: n = -104; break;
-		case -27: n = -210; break;
-		}
+	/**
+	 * Whether the program has finished running.
+	 */
+	get halted(): boolean {
+		return this.blocks.length === 0;
 	}
-	if(n < -200 && hwin == null) {
-		hwin = window.open()
+
+	/**
+	 * Whether the program has halted and nothing can call back into it anymore: it has no timers left and has not drawn on
+	 * the GUI.
+	 */
+	get settled(): boolean {
+		return this.halted && this.timers.size === 0 && !this.drawn;
 	}
-	switch(n) {
-	case -101:	/* iprint */
-		x = pop()
-		stdout.write(String(x));
-		push(0)
-		break
-	case -102:	/* sprint */
-		x = pop()
-		s = a2s(x)
-		stdout.write(String(s));
-		push(0)
-		break
-	case -103:	/* iread */
-		p = pop()
-		if(p == 0-1) {
-			x = await prompt("Integer input:")
-		}
-		else {
-			s = a2s(p)
-			x = await prompt(s)
-		}
-		push(parseInt(x, 10))
-		break
-	case -104:	/* sread */
-		a = pop()
-		p = pop()
-		if(p == -1) {
-			x = await prompt("String input:")
-		}
-		else {
-			s = a2s(p)
-			x = await prompt(s)
-		}
-		for(let i = 0; i < x.length; i++)
-			memory[a+i] = x.charCodeAt(i)
-		memory[a+i] = 0
-		push(0)
-		break
-	case -105:	/* nl */
-		stdout.write("\n");
-		push(0)
-		break
-	case -106:	/* random */
-		n = pop()
-		n = Math.floor(Math.random() * n)
-		push(n)
-		break
-	case -107:	/* timer */
-		var f
-		to = pop()
-		f = pop()
-		n = setTimeout(function(){call(f); pop();}, to)
-		push(n)
-		break
-	case -108:	/* stoptimer */
-		n = pop()
-		clearTimeout(n)
-		push(0)
-		break
-	case -201:	/* makeimg */
-		hwin.document.write('<img id=img' + imgnum + ' />\n')
-		push(imgnum)
-		imgnum++
-		break
-	case -202:	/* setimg */
-		n = pop()
-		src = pop()
-		s = a2s(src)
-		i = hwin.document.getElementById('img'+n)
-		i.src = s
-		push(0)
-		break
-	case -203:	/* button */
-		butname = pop()
-		n = pop()
-		s = a2s(butname)
-		t1 = '<button id=but' + butnum + ' onclick="window.opener.call(' + n + ');window.opener.pop()">'
-		hwin.document.write(t1 + s + '</button>\n')
-		push(butnum)
-		butnum++
-		break
-	case -204:	/* html */
-		x = pop()
-		s = a2s(x)
-		hwin.document.write(s)
-		push(0)
-		break
-	case -205: /* makelabel */
-		labtxt = pop()
-		s = a2s(labtxt)
-		hwin.document.write('<label id=lab' + labnum + '>' + s + '</label>\n')
-		push(labnum)
-		labnum++
-		break
-	case -206:	/* setlabel */
-		n = pop()
-		label = pop()
-		s = a2s(label)
-		l = hwin.document.getElementById('lab'+n)
-		l.innerHTML = s
-		push(0)
-		break
-	case -109:	/* alloc */
-		n = pop()
-		push(edata)
-		edata += n
-		break
-	case -110:	/* free */
-		a = pop()
-		push(0)
-		break
-	case -111:	/* i2s */
-		s = pop()
-		n = pop()
-		istr = n.toString(10)
-		for(let i = 0; i < istr.length; i++)
-			memory[s + i] = istr.charCodeAt(i)
-		memory[s+i] = 0
-		push(istr.length)
-		break
-	case -207:	/* maketable */
-		r = pop()
-		c = pop()
-		f = pop()
-		hwin.document.write('<table id=tab' + tabnum + '>\n')
-		for(let i = 0; i < r; i++) {
-			hwin.document.write('<tr>\n')
-			for(let j = 0; j < c; j++) {
-				hwin.document.write('<td onclick="window.opener.cellclick(' + tabnum + ',' + i + ',' + j + ',' + f + ')"></td>\n')
+
+	/**
+	 * The source line of the next instruction, or `undefined` if the tape has no source lines or the current block has no
+	 * instructions left.
+	 */
+	get line(): number | undefined {
+		let block = this.blocks[this.blocks.length - 1];
+		return block?.lines?.[block.pc] as number | undefined;
+	}
+
+	/**
+	 * Restores memory and registers to their initial state and prepares the entry function to run.
+	 */
+	reset(): void {
+		this.timers?.forEach(timer => clearTimeout(timer));
+		this.memory = new Array(memorySize).fill(0);
+		this.sp = memorySize - 1;
+		this.fp = memorySize - 1;
+		this.edata = this.tape[0][1];
+		this.blocks = [];
+		this.host.gui?.clear();
+		this.timers = new Map();
+		this.timernum = 0;
+		this.drawn = false;
+		this.profile = { functions: new Array(this.tape.length - 2).fill(0), calls: new Array(this.tape.length - 2).fill(0), lines: new Map() };
+		for (let [address, value] of this.tape[1]) this.memory[address] = value;
+		this.enter(this.tape[0][0]);
+	}
+
+	/**
+	 * Runs the program until it halts. The machine periodically yields to the event loop so that it can be stopped.
+	 */
+	run(): Promise<void> {
+		return this.schedule(async () => {
+			let count = 0;
+			while (!this.halted) {
+				let pending = this.advance();
+				if (pending) await pending;
+				if (++count % yieldInterval === 0) await new Promise(resolve => setImmediate(resolve));
 			}
-			hwin.document.write('</tr>\n')
+			this.host.write("halt\n");
+			if (this.options.profile) this.log(this.profileSummary());
+		});
+	}
+
+	/**
+	 * Stops the program and cancels its timers. A built-in that is waiting for input still finishes waiting, but nothing
+	 * runs after it.
+	 */
+	stop(): void {
+		this.timers.forEach(timer => clearTimeout(timer));
+		this.timers.clear();
+		this.blocks = [];
+		this.notifySettled(true);
+	}
+
+	/**
+	 * Waits until the program has {@link settled} or is stopped. A program that has drawn on the GUI only settles when it
+	 * is stopped.
+	 */
+	whenSettled(): Promise<void> {
+		if (this.settled) return Promise.resolve();
+		return new Promise(resolve => this.settledListeners.push(resolve));
+	}
+
+	/**
+	 * Executes the next instruction, or leaves the current block if it has no instructions left.
+	 *
+	 * @returns whether or not the program is still running.
+	 */
+	async step(): Promise<boolean> {
+		if (this.halted) return false;
+		await this.advance();
+		return !this.halted;
+	}
+
+	/**
+	 * Calls a function and runs it to completion. Used for timers and GUI events. The call waits for the main program or any
+	 * earlier callback to finish first.
+	 *
+	 * @param n The function number
+	 * @param args The arguments to pass to the function
+	 *
+	 * @returns The value returned by the function.
+	 */
+	invoke(n: number, args: number[] = []): Promise<number> {
+		return this.schedule(async () => {
+			let depth = this.blocks.length;
+			for (let i = args.length - 1; i >= 0; i--) this.push(args[i]);
+			await this.call(n);
+			while (this.blocks.length > depth) {
+				let pending = this.advance();
+				if (pending) await pending;
+			}
+			return this.pop();
+		});
+	}
+
+	/**
+	 * Describes where the program spent its time: the instructions executed by each function, and the source lines that
+	 * executed the most instructions.
+	 *
+	 * @returns The summary, as text tables.
+	 */
+	profileSummary(): string {
+		let total = this.profile.functions.reduce((sum, count) => sum + count, 0);
+		let percent = (count: number) => `${(total ? count / total * 100 : 0).toFixed(1)}%`.padStart(7);
+
+		let functions = this.profile.functions.map((count, n) => ({ name: this.functionName(n), calls: this.profile.calls[n], count: count }));
+		let width = Math.max(8, ...functions.map(func => func.name.length));
+		let summary = `\nProfile: ${total} instructions\n\n`;
+		summary += `${"Function".padEnd(width)}  ${"Calls".padStart(10)}  ${"Instructions".padStart(12)}  ${"%".padStart(7)}\n`;
+		functions.filter(func => func.calls).sort((a, b) => b.count - a.count).forEach(func => {
+			summary += `${func.name.padEnd(width)}  ${String(func.calls).padStart(10)}  ${String(func.count).padStart(12)}  ${percent(func.count)}\n`;
+		});
+
+		if (this.profile.lines.size) {
+			let lines = [...this.profile.lines].sort((a, b) => b[1] - a[1]);
+			summary += `\n${"Line".padStart(6)}  ${"Instructions".padStart(12)}  ${"%".padStart(7)}\n`;
+			lines.slice(0, profiledLines).forEach(([line, count]) => {
+				summary += `${String(line + 1).padStart(6)}  ${String(count).padStart(12)}  ${percent(count)}\n`;
+			});
+			if (lines.length > profiledLines) summary += `(${lines.length - profiledLines} more lines)\n`;
 		}
-		hwin.document.write('</table>\n')
-		push(tabnum)
-		tabnum++
-		break
-	case -208:	/* setcell */
-		tnum = pop()
-		r = pop()
-		c = pop()
-		cval = pop()
-		s = a2s(cval)
-		t = hwin.document.getElementById('tab' + tnum)
-		t.rows[r].cells[c].innerHTML = s
-		push(0)
-		break
-	case -209:	/* setcellcolor */
-		tnum = pop()
-		r = pop()
-		c = pop()
-		cval = pop()
-		s = a2s(cval)
-		t = hwin.document.getElementById('tab' + tnum)
-		t.rows[r].cells[c].style = "background-color:" + s
-		push(0)
-		break
-	case -210:	/* buttonlabel */
-		bnum = pop()
-		nlab = pop()
-		s = a2s(nlab)
-		b = hwin.document.getElementById('but' + bnum)
-		b.innerHTML=s
-		push(0)
-		break
-	case -3:	/* old iread */
-		x = await prompt("Integer input:")
-		push(parseInt(x, 10))
-		break
-	case -4:	/* old sread */
-		a = pop()
-		x = await prompt("String input:")
-		for(let i = 0; i < x.length; i++)
-			memory[a+i] = x.charCodeAt(i)
-		memory[a+i] = 0
-		push(0)
-		break
-	default:
-		if(n < 0) {
-			console.log("Invalid function call", n)
-			return
+		return summary;
+	}
+
+	/**
+	 * Returns the name of a user function, for tapes that do not record it as well as those that do.
+	 *
+	 * @param n The function number
+	 *
+	 * @returns The name of the function, or `function <n>` if the tape only numbers it.
+	 */
+	functionName(n: number): string {
+		let name = (this.tape[n + 2] as FunctionEntry)[0];
+		return typeof name === "string" ? name : `function ${n}`;
+	}
+
+	private log(text: string): void {
+		if (this.options.log) this.options.log(text);
+		else process.stderr.write(text);
+	}
+
+	/**
+	 * Logs the instruction that is about to be executed.
+	 *
+	 * @param block The block the instruction is in
+	 */
+	private trace(block: Block): void {
+		let ir = block.code[block.pc] as Opcode;
+		let operand = block.code[block.pc + 1];
+		let instruction = Opcode[ir] ?? `unknown ${ir}`;
+		if (ir === Opcode.push || ir === Opcode.call) instruction += ` ${operand}`;
+		let name = this.functionName(block.function);
+		let line = this.line === undefined ? "" : `:${this.line + 1}`;
+		this.log(`${(name + line).padEnd(16)} pc=${String(block.pc).padEnd(5)} ${instruction.padEnd(12)} sp=${this.sp} fp=${this.fp} top=${this.memory[this.sp + 1]}\n`);
+	}
+
+	/**
+	 * Invokes a function for a timer or GUI event. Nothing waits for these calls, so errors are written to the host instead
+	 * of being thrown.
+	 *
+	 * @param n The function number
+	 * @param args The arguments to pass to the function
+	 *
+	 * @returns The value returned by the function, or 0 if it failed.
+	 */
+	private callback(n: number, args: number[] = []): Promise<number> {
+		return this.invoke(n, args).catch(error => {
+			this.host.write(`\n${error}\n`);
+			return 0;
+		});
+	}
+
+	/**
+	 * Calls the listeners waiting for the program to settle, if it has.
+	 *
+	 * @param stopped Whether the program was stopped, which counts as settling
+	 */
+	private notifySettled(stopped = false): void {
+		if (!stopped && !this.settled) return;
+		let listeners = this.settledListeners;
+		this.settledListeners = [];
+		listeners.forEach(listener => listener());
+	}
+
+	private schedule<T>(task: () => Promise<T>): Promise<T> {
+		let result = this.queue.then(task);
+		this.queue = result.catch(() => { });
+		return result;
+	}
+
+	private push(x: number): void {
+		this.memory[this.sp] = x;
+		this.sp--;
+	}
+
+	private pop(): number {
+		this.sp++;
+		return this.memory[this.sp];
+	}
+
+	private a2s(x: number): string {
+		let s = "";
+		while (this.memory[x] != 0) {
+			s += String.fromCharCode(this.memory[x]);
+			x++;
 		}
-		for(let i = 0; i < m[n+2][3]; i++)
-			push(0)
-		memory[sp] = fp
-		fp = sp
-		sp--
-		leval(m[n+2][4])
-		r = pop()
-		sp = fp
-		fp = memory[sp]
-		sp += m[n+2][2] + m[n+2][3]
-		push(r)
-		break
+		return s;
 	}
-}
 
-function cellclick(t, r, c, f) {
-	push(c)
-	push(r)
-	for(let i = 0; i < m[f+2][3]; i++)
-		push(0)
-	memory[sp] = fp
-	fp = sp
-	sp--
-	leval(m[f+2][4])
-	r = pop()
-	sp = fp
-	fp = memory[sp]
-	sp += m[f+2][2] + m[f+2][3]
-//	push(r)
-}
+	private s2a(s: string, a: number): void {
+		for (let i = 0; i < s.length; i++) this.memory[a + i] = s.charCodeAt(i);
+		this.memory[a + s.length] = 0;
+	}
+
+	/**
+	 * Sets up the stack frame of a user function and starts executing its body.
+	 *
+	 * @param n The function number
+	 */
+	private enter(n: number): void {
+		let func = this.tape[n + 2] as FunctionEntry;
+		if (this.options.profile) this.profile.calls[n]++;
+		for (let i = 0; i < func[3]; i++) this.push(0);
+		this.memory[this.sp] = this.fp;
+		this.fp = this.sp;
+		this.sp--;
+		this.blocks.push({ kind: "function", code: func[4], pc: 0, function: n, lines: func[5] });
+	}
 
-function evaluate(l, pc) {
-	if(pc >= l.length) {
-		return -1
+	/**
+	 * Returns from the function being executed, leaving its return value on the caller's stack.
+	 */
+	private leave(): void {
+		let block: Block;
+		do block = this.blocks.pop()!;
+		while (block.kind !== "function");
+		let func = this.tape[block.function + 2] as FunctionEntry;
+		let r = this.pop();
+		this.sp = this.fp;
+		this.fp = this.memory[this.sp];
+		this.sp += func[2] + func[3];
+		this.push(r);
 	}
-	ir = l[pc]
-	pc++
-	switch(ir) {
-	case 1:	/* push */
-		push(l[pc])
-		pc++
-		break
-	case 2:	/* fetch */
-		a = pop()
-		push(memory[a])
-		break
-	case 3:	/* store */
-		v = pop()
-		a = pop()
-		memory[a] = v
-		break
-	case 4:	/* if */
-		x = pop()
-		if(x != 0) {
-			r = leval(l[pc])
-			pc += 2
+
+	/**
+	 * Executes one instruction of the innermost block. Returns a promise if the instruction has to wait for input.
+	 */
+	private advance(): Promise<void> | void {
+		let block = this.blocks[this.blocks.length - 1];
+		let l = block.code;
+
+		// Loops start over when they reach the end, and any other block returns to the block that contains it
+		if (block.pc >= l.length) {
+			if (block.kind === "loop") block.pc = 0;
+			else if (block.kind === "function") this.leave();
+			else this.blocks.pop();
+			return;
 		}
-		else {
-			pc++
-			r = leval(l[pc])
-			pc++
+
+		if (this.options.trace) this.trace(block);
+		if (this.options.profile) {
+			this.profile.functions[block.function]++;
+			let line = this.line;
+			if (line !== undefined) this.profile.lines.set(line, (this.profile.lines.get(line) ?? 0) + 1);
 		}
-		if(r <= -2)
-			return r
-		break
-	case 5:	/* loop */
-		while(1) {
-			r = leval(l[pc])
-			if(r == -2)
-				break
-			else if(r == -3)
-				return -3
+
+		let ir = l[block.pc] as Opcode;
+		block.pc++;
+		let x: number, y: number, a: number;
+		switch (ir) {
+		case Opcode.push:
+			this.push(l[block.pc] as number);
+			block.pc++;
+			break;
+		case Opcode.fetch:
+			a = this.pop();
+			this.push(this.memory[a]);
+			break;
+		case Opcode.store:
+			x = this.pop();
+			a = this.pop();
+			this.memory[a] = x;
+			break;
+		case Opcode.if:
+			x = this.pop();
+			a = block.pc + (x != 0 ? 0 : 1);
+			this.blocks.push({ kind: "if", code: l[a] as Code, pc: 0, function: block.function, lines: block.lines?.[a] as Lines });
+			block.pc += 2;
+			break;
+		case Opcode.loop:
+			this.blocks.push({ kind: "loop", code: l[block.pc] as Code, pc: 0, function: block.function, lines: block.lines?.[block.pc] as Lines });
+			block.pc++;
+			break;
+		case Opcode.break:
+			x = this.pop();
+			if (x != 0) {
+				// Leave the innermost loop, or the function if the break is not inside a loop
+				while (this.blocks[this.blocks.length - 1].kind === "if") this.blocks.pop();
+				if (this.blocks[this.blocks.length - 1].kind === "loop") this.blocks.pop();
+				else this.leave();
+			}
+			break;
+		case Opcode.return:
+			this.leave();
+			break;
+		case Opcode.call:
+			x = l[block.pc] as number;
+			block.pc++;
+			return this.call(x);
+		case Opcode.fpplus:
+			a = this.pop();
+			this.push(a + this.fp);
+			break;
+		case Opcode.add:
+			y = this.pop();
+			x = this.pop();
+			this.push(x + y);
+			break;
+		case Opcode.sub:
+			y = this.pop();
+			x = this.pop();
+			this.push(x - y);
+			break;
+		case Opcode.mul:
+			y = this.pop();
+			x = this.pop();
+			this.push(x * y);
+			break;
+		case Opcode.div:
+			y = this.pop();
+			x = this.pop();
+			this.push(Math.floor(x / y));
+			break;
+		case Opcode.mod:
+			y = this.pop();
+			x = this.pop();
+			this.push(x % y);
+			break;
+		case Opcode.not:
+			x = this.pop();
+			this.push(~x);
+			break;
+		case Opcode.and:
+			y = this.pop();
+			x = this.pop();
+			this.push(x & y);
+			break;
+		case Opcode.or:
+			y = this.pop();
+			x = this.pop();
+			this.push(x | y);
+			break;
+		case Opcode.xor:
+			y = this.pop();
+			x = this.pop();
+			this.push(x ^ y);
+			break;
+		case Opcode.eq:
+			y = this.pop();
+			x = this.pop();
+			this.push(x == y ? 1 : 0);
+			break;
+		case Opcode.neq:
+			y = this.pop();
+			x = this.pop();
+			this.push(x != y ? 1 : 0);
+			break;
+		case Opcode.lt:
+			y = this.pop();
+			x = this.pop();
+			this.push(x < y ? 1 : 0);
+			break;
+		case Opcode.leq:
+			y = this.pop();
+			x = this.pop();
+			this.push(x <= y ? 1 : 0);
+			break;
+		case Opcode.gt:
+			y = this.pop();
+			x = this.pop();
+			this.push(x > y ? 1 : 0);
+			break;
+		case Opcode.geq:
+			y = this.pop();
+			x = this.pop();
+			this.push(x >= y ? 1 : 0);
+			break;
+		case Opcode.pop:
+			this.pop();
+			break;
+		case Opcode.lshift:
+			y = this.pop();
+			x = this.pop();
+			this.push(x << y);
+			break;
+		case Opcode.rshift:
+			y = this.pop();
+			x = this.pop();
+			this.push(x >> y);
+			break;
+		default:
+			throw new Error(`Unknown opcode ${ir}`);
 		}
-		pc++
-		break
-	case 6:	/* break */
-		x = pop()
-		if(x != 0)
-			return -2
-		break
-	case 7:	/* return */
-		return -3
-		break
-	case 8:	/* call */
-		call(l[pc])
-		pc++
-		break
-	case 9:	/* fpplus */
-		a = pop()
-		a += fp
-		push(a)
-		break
-	case 10:	/* add */
-		y = pop()
-		x = pop()
-		push(x+y)
-		break
-	case 11:	/* sub */
-		y = pop()
-		x = pop()
-		push(x-y)
-		break
-	case 12:	/* mul */
-		y = pop()
-		x = pop()
-		push(x*y)
-		break
-	case 13:	/* div */
-		y = pop()
-		x = pop()
-		push(Math.floor(x/y))
-		break
-	case 14:	/* mod */
-		y = pop()
-		x = pop()
-		push(x%y)
-		break
-	case 15:	/* not */
-		x = pop()
-		push(~x)
-		break
-	case 16:	/* and */
-		y = pop()
-		x = pop()
-		push(x&y)
-		break
-	case 17:	/* or */
-		y = pop()
-		x = pop()
-		push(x|y)
-		break
-	case 18:	/* xor */
-		y = pop()
-		x = pop()
-		push(x^y)
-		break
-	case 19:	/* eq */
-		y = pop()
-		x = pop()
-		if(x == y)
-			push(1)
-		else
-			push(0)
-		break
-	case 20:	/* neq */
-		y = pop()
-		x = pop()
-		if(x != y)
-			push(1)
-		else
-			push(0)
-		break
-	case 21:	/* lt */
-		y = pop()
-		x = pop()
-		if(x < y)
-			push(1)
-		else
-			push(0)
-		break
-	case 22:	/* leq */
-		y = pop()
-		x = pop()
-		if(x <= y)
-			push(1)
-		else
-			push(0)
-		break
-	case 23:	/* gt */
-		y = pop()
-		x = pop()
-		if(x > y)
-			push(1)
-		else
-			push(0)
-		break
-	case 24:	/* geq */
-		y = pop()
-		x = pop()
-		if(x >= y)
-			push(1)
-		else
-			push(0)
-		break
-	case 25:	/* pop */
-		pop()
-		break
-	case 26:	/* lshift */
-		s = pop()
-		x = pop()
-		push(x << s)
-		break
-	case 27:	/* rshift */
-		s = pop()
-		x = pop()
-		push(x >> s)
-		break
-	default:
-		console.log("unknown opcode ", ir)
-		break
 	}
-	return pc
-}
 
-async function start() {
-	edata = m[0][1]
-	await call(m[0][0])
-	console.log("halt")
-}
+	/**
+	 * Calls a built-in function, or enters a user function. Returns a promise if the built-in has to wait for input.
+	 *
+	 * @param n The function number. Negative numbers are built-in functions.
+	 */
+	private call(n: number): Promise<void> | void {
+		n = legacyFunctionNumbers[n] ?? n;
+		let x: number, a: number, p: number, s: string;
+		switch (n) {
+		case -101:	/* iprint */
+			x = this.pop();
+			this.host.write(String(x));
+			this.push(0);
+			break;
+		case -102:	/* sprint */
+			x = this.pop();
+			this.host.write(this.a2s(x));
+			this.push(0);
+			break;
+		case -103:	/* iread */
+			p = this.pop();
+			return this.host.readLine(p == -1 ? "Integer input:" : this.a2s(p)).then(text => this.push(parseInt(text, 10)));
+		case -104:	/* sread */
+			a = this.pop();
+			p = this.pop();
+			return this.host.readLine(p == -1 ? "String input:" : this.a2s(p)).then(text => {
+				this.s2a(text, a);
+				this.push(0);
+			});
+		case -105:	/* nl */
+			this.host.write("\n");
+			this.push(0);
+			break;
+		case -106:	/* random */
+			x = this.pop();
+			this.push(Math.floor(Math.random() * x));
+			break;
+		case -107: {	/* timer */
+			let to = this.pop();
+			let f = this.pop();
+			let id = this.timernum++;
+			this.timers.set(id, setTimeout(() => {
+				this.timers.delete(id);
+				this.callback(f).then(() => this.notifySettled());
+			}, to));
+			this.push(id);
+			break;
+		}
+		case -108:	/* stoptimer */
+			x = this.pop();
+			clearTimeout(this.timers.get(x));
+			this.timers.delete(x);
+			this.push(0);
+			this.notifySettled();
+			break;
+		case -109:	/* alloc */
+			x = this.pop();
+			this.push(this.edata);
+			this.edata += x;
+			break;
+		case -110:	/* free */
+			this.pop();
+			this.push(0);
+			break;
+		case -111:	/* i2s */
+			a = this.pop();
+			x = this.pop();
+			s = x.toString(10);
+			this.s2a(s, a);
+			this.push(s.length);
+			break;
+		case -201:	/* makeimg */
+			this.push(this.gui().makeimg());
+			break;
+		case -202:	/* setimg */
+			x = this.pop();
+			s = this.a2s(this.pop());
+			this.gui().setimg(x, s);
+			this.push(0);
+			break;
+		case -203: {	/* button */
+			s = this.a2s(this.pop());
+			let f = this.pop();
+			this.push(this.gui().button(s, () => this.callback(f)));
+			break;
+		}
+		case -204:	/* html */
+			s = this.a2s(this.pop());
+			this.gui().html(s);
+			this.push(0);
+			break;
+		case -205:	/* makelabel */
+			s = this.a2s(this.pop());
+			this.push(this.gui().makelabel(s));
+			break;
+		case -206:	/* setlabel */
+			x = this.pop();
+			s = this.a2s(this.pop());
+			this.gui().setlabel(x, s);
+			this.push(0);
+			break;
+		case -207: {	/* maketable */
+			let r = this.pop();
+			let c = this.pop();
+			let f = this.pop();
+			this.push(this.gui().maketable(r, c, (row, column) => this.callback(f, [row, column])));
+			break;
+		}
+		case -208: {	/* setcell */
+			let t = this.pop();
+			let r = this.pop();
+			let c = this.pop();
+			s = this.a2s(this.pop());
+			this.gui().setcell(t, r, c, s);
+			this.push(0);
+			break;
+		}
+		case -209: {	/* setcellcolor */
+			let t = this.pop();
+			let r = this.pop();
+			let c = this.pop();
+			s = this.a2s(this.pop());
+			this.gui().setcellcolor(t, r, c, s);
+			this.push(0);
+			break;
+		}
+		case -210:	/* buttonlabel */
+			x = this.pop();
+			s = this.a2s(this.pop());
+			this.gui().buttonlabel(x, s);
+			this.push(0);
+			break;
+		case -3:	/* old iread */
+			return this.host.readLine("Integer input:").then(text => this.push(parseInt(text, 10)));
+		case -4:	/* old sread */
+			a = this.pop();
+			return this.host.readLine("String input:").then(text => {
+				this.s2a(text, a);
+				this.push(0);
+			});
+		default:
+			if (n < 0 || n >= this.tape.length - 2) throw new Error(`Invalid function call ${n}`);
+			this.enter(n);
+			break;
+		}
+	}
 
-function startvm() {
-	hwin = null
-	imgnum = 0
-	butnum = 0
-	labnum = 0
-	tabnum = 0
-	// document.write("<html>\n<body>\n")
-	// document.write('<button onclick="start();">Start</button><br>\n')
-	// document.write("<label>Standard Output</label><br>\n")
-	// document.write('<textarea id="stdout" cols="80" rows="20"></textarea><br>\n')
-	// document.write("</body>\n</html>\n")
-	m = JSON.parse(tape)
-	sp = 65535
-	fp = 65535
-	for(let n = 0; n < m[1].length; n++) {
-		memory[m[1][n][0]] = m[1][n][1]
+	/**
+	 * Returns the surface GUI built-ins draw on.
+	 */
+	private gui(): GuiSurface {
+		if (!this.host.gui) throw new Error("This program uses GUI functions, but it is not running on a host with a GUI");
+		this.drawn = true;
+		return this.host.gui;
 	}
 }
-
-(async function() {
-	await start();
-})();
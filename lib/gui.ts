@@ -0,0 +1,234 @@
+import { GuiSurface } from "./host";
+
+/**
+ * A GUI surface that draws in a new browser window, opened the first time a widget is created.
+ */
+export class BrowserGui implements GuiSurface {
+
+	private hwin: Window | null = null;
+	private imgnum = 0;
+	private butnum = 0;
+	private labnum = 0;
+	private tabnum = 0;
+
+	private get document(): Document {
+		if (this.hwin == null) this.hwin = window.open()!;
+		return this.hwin.document;
+	}
+
+	makeimg(): number {
+		this.document.write('<img id=img' + this.imgnum + ' />\n');
+		return this.imgnum++;
+	}
+
+	setimg(image: number, src: string): void {
+		(this.document.getElementById('img' + image) as HTMLImageElement).src = src;
+	}
+
+	button(label: string, onClick: () => Promise<number>): number {
+		this.document.write('<button id=but' + this.butnum + '>' + label + '</button>\n');
+		this.document.getElementById('but' + this.butnum)!.addEventListener("click", onClick);
+		return this.butnum++;
+	}
+
+	html(code: string): void {
+		this.document.write(code);
+	}
+
+	makelabel(text: string): number {
+		this.document.write('<label id=lab' + this.labnum + '>' + text + '</label>\n');
+		return this.labnum++;
+	}
+
+	setlabel(label: number, text: string): void {
+		this.document.getElementById('lab' + label)!.innerHTML = text;
+	}
+
+	maketable(rows: number, columns: number, onClick: (row: number, column: number) => Promise<number>): number {
+		let doc = this.document;
+		doc.write('<table id=tab' + this.tabnum + '>\n');
+		for (let i = 0; i < rows; i++) {
+			doc.write('<tr>\n');
+			for (let j = 0; j < columns; j++) doc.write('<td></td>\n');
+			doc.write('</tr>\n');
+		}
+		doc.write('</table>\n');
+
+		let table = this.table(this.tabnum);
+		for (let i = 0; i < rows; i++) {
+			for (let j = 0; j < columns; j++) table.rows[i].cells[j].addEventListener("click", () => onClick(i, j));
+		}
+		return this.tabnum++;
+	}
+
+	setcell(table: number, row: number, column: number, text: string): void {
+		this.table(table).rows[row].cells[column].innerHTML = text;
+	}
+
+	setcellcolor(table: number, row: number, column: number, color: string): void {
+		this.table(table).rows[row].cells[column].style.backgroundColor = color;
+	}
+
+	buttonlabel(button: number, label: string): void {
+		this.document.getElementById('but' + button)!.innerHTML = label;
+	}
+
+	clear(): void {
+		this.hwin?.close();
+		this.hwin = null;
+		this.imgnum = 0;
+		this.butnum = 0;
+		this.labnum = 0;
+		this.tabnum = 0;
+	}
+
+	private table(t: number): HTMLTableElement {
+		return this.document.getElementById('tab' + t) as HTMLTableElement;
+	}
+}
+
+/**
+ * A widget on a {@link HeadlessGui}.
+ */
+export type Widget =
+	{ kind: "image", id: number, src: string } |
+	{ kind: "button", id: number, label: string, onClick: () => Promise<number> } |
+	{ kind: "label", id: number, text: string } |
+	{ kind: "table", id: number, cells: { text: string, color: string }[][], onClick: (row: number, column: number) => Promise<number> } |
+	{ kind: "html", code: string };
+
+/**
+ * A GUI surface that keeps its widgets in memory. It can be inspected, rendered to HTML, and clicked programmatically, so
+ * GUI programs can run without a browser.
+ */
+export class HeadlessGui implements GuiSurface {
+
+	/** Every widget in the order it was created. */
+	widgets: Widget[] = [];
+
+	private images: (Widget & { kind: "image" })[] = [];
+	private buttons: (Widget & { kind: "button" })[] = [];
+	private labels: (Widget & { kind: "label" })[] = [];
+	private tables: (Widget & { kind: "table" })[] = [];
+
+	makeimg(): number {
+		let image: Widget & { kind: "image" } = { kind: "image", id: this.images.length, src: "" };
+		this.images.push(image);
+		this.widgets.push(image);
+		return image.id;
+	}
+
+	setimg(image: number, src: string): void {
+		this.widget(this.images, "image", image).src = src;
+	}
+
+	button(label: string, onClick: () => Promise<number>): number {
+		let button: Widget & { kind: "button" } = { kind: "button", id: this.buttons.length, label: label, onClick: onClick };
+		this.buttons.push(button);
+		this.widgets.push(button);
+		return button.id;
+	}
+
+	html(code: string): void {
+		this.widgets.push({ kind: "html", code: code });
+	}
+
+	makelabel(text: string): number {
+		let label: Widget & { kind: "label" } = { kind: "label", id: this.labels.length, text: text };
+		this.labels.push(label);
+		this.widgets.push(label);
+		return label.id;
+	}
+
+	setlabel(label: number, text: string): void {
+		this.widget(this.labels, "label", label).text = text;
+	}
+
+	maketable(rows: number, columns: number, onClick: (row: number, column: number) => Promise<number>): number {
+		let cells = Array.from({ length: rows }, () => Array.from({ length: columns }, () => ({ text: "", color: "" })));
+		let table: Widget & { kind: "table" } = { kind: "table", id: this.tables.length, cells: cells, onClick: onClick };
+		this.tables.push(table);
+		this.widgets.push(table);
+		return table.id;
+	}
+
+	setcell(table: number, row: number, column: number, text: string): void {
+		this.cell(table, row, column).text = text;
+	}
+
+	setcellcolor(table: number, row: number, column: number, color: string): void {
+		this.cell(table, row, column).color = color;
+	}
+
+	buttonlabel(button: number, label: string): void {
+		this.widget(this.buttons, "button", button).label = label;
+	}
+
+	clear(): void {
+		this.widgets = [];
+		this.images = [];
+		this.buttons = [];
+		this.labels = [];
+		this.tables = [];
+	}
+
+	/**
+	 * Pushes a button.
+	 *
+	 * @param button The button identifier returned by `button()`
+	 *
+	 * @returns A promise that resolves to the return value of the button's callback once it has run.
+	 */
+	click(button: number): Promise<number> {
+		return this.widget(this.buttons, "button", button).onClick();
+	}
+
+	/**
+	 * Clicks a table cell.
+	 *
+	 * @param table The table identifier returned by `maketable()`
+	 * @param row The row of the cell
+	 * @param column The column of the cell
+	 *
+	 * @returns A promise that resolves to the return value of the table's callback once it has run.
+	 */
+	clickCell(table: number, row: number, column: number): Promise<number> {
+		this.cell(table, row, column);
+		return this.widget(this.tables, "table", table).onClick(row, column);
+	}
+
+	/**
+	 * Renders the widgets as the HTML the browser surface would show.
+	 *
+	 * @returns The HTML snapshot.
+	 */
+	toHTML(): string {
+		return this.widgets.map(widget => {
+			switch (widget.kind) {
+				case "image": return '<img id=img' + widget.id + (widget.src ? ' src="' + widget.src + '"' : '') + ' />\n';
+				case "button": return '<button id=but' + widget.id + '>' + widget.label + '</button>\n';
+				case "label": return '<label id=lab' + widget.id + '>' + widget.text + '</label>\n';
+				case "html": return widget.code;
+				case "table": {
+					let rows = widget.cells.map(row => {
+						let cells = row.map(cell => '<td' + (cell.color ? ' style="background-color:' + cell.color + '"' : '') + '>' + cell.text + '</td>\n');
+						return '<tr>\n' + cells.join('') + '</tr>\n';
+					});
+					return '<table id=tab' + widget.id + '>\n' + rows.join('') + '</table>\n';
+				}
+			}
+		}).join('');
+	}
+
+	private widget<T extends Widget>(list: T[], kind: string, id: number): T {
+		let widget = list[id];
+		if (!widget) throw new Error(`There is no ${kind} with the identifier ${id}`);
+		return widget;
+	}
+
+	private cell(table: number, row: number, column: number): { text: string, color: string } {
+		let cell = this.widget(this.tables, "table", table).cells[row]?.[column];
+		if (!cell) throw new Error(`Table ${table} has no cell at row ${row}, column ${column}`);
+		return cell;
+	}
+}
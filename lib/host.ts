@@ -0,0 +1,151 @@
+import * as ReadLine from 'node:readline';
+import { stdin, stdout } from 'node:process';
+
+/**
+ * The surface the GUI built-ins draw on. Widgets are identified by the numbers the surface returns when creating them.
+ * Click handlers are called with the arguments the Tranquility callback expects, and resolve once the callback returns.
+ */
+export interface GuiSurface {
+
+	/** Creates an image with no source. */
+	makeimg(): number;
+
+	/** Sets the source of an image. */
+	setimg(image: number, src: string): void;
+
+	/** Creates a button that calls `onClick` when it is pushed. */
+	button(label: string, onClick: () => Promise<number>): number;
+
+	/** Writes raw HTML to the surface. */
+	html(code: string): void;
+
+	/** Creates a label. */
+	makelabel(text: string): number;
+
+	/** Sets the text of a label. */
+	setlabel(label: number, text: string): void;
+
+	/** Creates a table that calls `onClick` with the row and column of each clicked cell. */
+	maketable(rows: number, columns: number, onClick: (row: number, column: number) => Promise<number>): number;
+
+	/** Sets the text of a table cell. */
+	setcell(table: number, row: number, column: number, text: string): void;
+
+	/** Sets the background color of a table cell. */
+	setcellcolor(table: number, row: number, column: number, color: string): void;
+
+	/** Sets the label of a button. */
+	buttonlabel(button: number, label: string): void;
+
+	/** Removes every widget from the surface. */
+	clear(): void;
+}
+
+/**
+ * The environment a program runs in. The built-in functions use it for console output, line input and the GUI.
+ */
+export interface Host {
+
+	/**
+	 * Writes text to the console.
+	 *
+	 * @param text The text to write
+	 */
+	write(text: string): void;
+
+	/**
+	 * Prompts the user for a line of input.
+	 *
+	 * @param prompt The prompt message
+	 *
+	 * @returns The line entered by the user, without its newline.
+	 */
+	readLine(prompt: string): Promise<string>;
+
+	/**
+	 * The surface GUI built-ins draw on. Programs that use the GUI fail on hosts without one.
+	 */
+	gui?: GuiSurface;
+}
+
+/**
+ * A host that uses the terminal the process was started from. Standard input is only opened the first time the program
+ * reads from it.
+ */
+export class TerminalHost implements Host {
+
+	private input: ReadLine.Interface | null = null;
+	private lines: string[] = [];
+	private waiting: ((line: string) => void)[] = [];
+	private closed = false;
+
+	/**
+	 * Creates a new terminal host.
+	 *
+	 * @param gui The surface GUI built-ins draw on
+	 */
+	constructor(public readonly gui?: GuiSurface) { }
+
+	write(text: string): void {
+		stdout.write(text);
+	}
+
+	readLine(prompt: string): Promise<string> {
+		stdout.write(prompt);
+		if (!this.input) {
+			this.input = ReadLine.createInterface({ input: stdin });
+
+			// Lines can arrive before they are asked for when input is piped, so they are queued until they are read
+			this.input.on("line", line => {
+				let resolve = this.waiting.shift();
+				if (resolve) resolve(line);
+				else this.lines.push(line);
+			});
+			this.input.on("close", () => {
+				this.closed = true;
+				this.waiting.splice(0).forEach(resolve => resolve(""));
+			});
+		}
+		let line = this.lines.shift();
+		if (line !== undefined) return Promise.resolve(line);
+
+		// Reads after the end of the input get an empty line, like the reads that were waiting when it ended
+		if (this.closed) return Promise.resolve("");
+		return new Promise(resolve => this.waiting.push(resolve));
+	}
+
+	/**
+	 * Stops reading standard input so that the process can exit.
+	 */
+	close(): void {
+		this.input?.close();
+		this.input = null;
+	}
+}
+
+/**
+ * A host that reads from a fixed list of input lines and records everything written to the console. Used to run
+ * programs without a user, such as in tests.
+ */
+export class ScriptedHost implements Host {
+
+	/** Everything the program has written to the console, including prompts. */
+	output = "";
+
+	/**
+	 * Creates a new scripted host.
+	 *
+	 * @param input The lines returned by successive reads. Reads past the end return an empty string.
+	 * @param gui The surface GUI built-ins draw on
+	 */
+	constructor(public readonly input: string[] = [], public readonly gui?: GuiSurface) { }
+
+	write(text: string): void {
+		this.output += text;
+	}
+
+	readLine(prompt: string): Promise<string> {
+		this.output += prompt;
+		return Promise.resolve(this.input.shift() ?? "");
+	}
+}
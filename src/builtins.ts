@@ -3,7 +3,8 @@ import { TranquilityType } from "./parser";
 interface BuiltInFunction {
     name: string;
     description: string;
-    parameters: { [key: string]: TranquilityType };
+    parameters: { [key: string]: TranquilityType | TranquilityType[] };
+    returnType: TranquilityType;
 }
 
 export let builtInFunctions: BuiltInFunction[] = [];
@@ -17,7 +18,8 @@ let alloc = builtInFunction({
     description: "\n```\nfun alloc(locations: Integer) -> Address<Any>\n```\nAllocates a block of memory with `locations` locations. Returns the address of the first location.",
     parameters: {
         locations: "integer"
-    }
+    },
+    returnType: "address"
 });
 
 let button = builtInFunction({
@@ -26,7 +28,8 @@ let button = builtInFunction({
     parameters: {
         label: "string",
         onClick: "function"
-    }
+    },
+    returnType: "integer"
 });
 
 let buttonlabel = builtInFunction({
@@ -35,7 +38,8 @@ let buttonlabel = builtInFunction({
     parameters: {
         button: "integer",
         label: "string"
-    }
+    },
+    returnType: "void"
 });
 
 let free = builtInFunction({
@@ -43,7 +47,8 @@ let free = builtInFunction({
     description: "\n```\nfun free(address: Address<Any>) -> void\n```\nReturns the previously allocated memory block to the free list. `p` refers to the memory address returned by a call to `alloc()`.\nThis method is currently lacking an implementation.",
     parameters: {
         address: "address"
-    }
+    },
+    returnType: "void"
 });
 
 let html = builtInFunction({
@@ -51,7 +56,8 @@ let html = builtInFunction({
     description: "\n```\nfun html(code: HTMLCode) -> void\n```\nSends `code` as an HTML code to the HTML window.",
     parameters: {
         code: "string"
-    }
+    },
+    returnType: "void"
 });
 
 let i2s = builtInFunction({
@@ -60,7 +66,8 @@ let i2s = builtInFunction({
     parameters: {
         address: "address",
         number: "integer"
-    }
+    },
+    returnType: "void"
 });
 
 let iprint = builtInFunction({
@@ -68,21 +75,24 @@ let iprint = builtInFunction({
     description: "\n```\n iprint(number: Integer) -> void\n```\nPrints an integer to the console. This will not print a new line by default.",
     parameters: {
         number: "integer"
-    }
+    },
+    returnType: "void"
 });
 
 let iread = builtInFunction({
     name: "iread",
-    description: "\n```\nfun iread(prompt: String) -> Integer\n```\nPrompts the user to enter an integer with the message `prompt`.",
+    description: "\n```\nfun iread(prompt: String | Integer) -> Integer\n```\nPrompts the user to enter an integer with the message `prompt`. If `prompt` is -1, a default message is shown.",
     parameters: {
-        prompt: "string"
-    }
+        prompt: ["string", "integer"]
+    },
+    returnType: "integer"
 });
 
 let makeimg = builtInFunction({
     name: "makeimg",
     description: "\n```\nfun makeimg() -> Image\n```\nCreates an image with no source and returns a reference to the image.",
-    parameters: {}
+    parameters: {},
+    returnType: "integer"
 });
 
 let makelabel = builtInFunction({
@@ -90,7 +100,8 @@ let makelabel = builtInFunction({
     description: "\n```\nfun makelabel(text: String) -> Label\n```\nCreates a label setting its contents to `text` and returns an integer label identifier that can be passed to `setlabel()`.",
     parameters: {
         text: "string"
-    }
+    },
+    returnType: "integer"
 });
 
 let maketable = builtInFunction({
@@ -100,7 +111,15 @@ let maketable = builtInFunction({
         rows: "integer",
         columns: "integer",
         onClick: "function"
-    }
+    },
+    returnType: "integer"
+});
+
+let nl = builtInFunction({
+    name: "nl",
+    description: "\n```\nfun nl() -> void\n```\nPrints a new line to the console.",
+    parameters: {},
+    returnType: "void"
 });
 
 let random = builtInFunction({
@@ -108,7 +127,8 @@ let random = builtInFunction({
     description: "\n```\nfun random(max: Integer) -> Integer\n```\nReturns a random number between 0 and `max`, including 0 but not `max`.",
     parameters: {
         max: "integer"
-    }
+    },
+    returnType: "integer"
 });
 
 let setcell = builtInFunction({
@@ -119,7 +139,8 @@ let setcell = builtInFunction({
         row: "integer",
         column: "integer",
         text: "string"
-    }
+    },
+    returnType: "void"
 });
 
 let setcellcolor = builtInFunction({
@@ -130,7 +151,8 @@ let setcellcolor = builtInFunction({
         row: "integer",
         column: "integer",
         color: "string"
-    }
+    },
+    returnType: "void"
 });
 
 let setimg = builtInFunction({
@@ -139,7 +161,8 @@ let setimg = builtInFunction({
     parameters: {
         image: "integer",
         src: "string"
-    }
+    },
+    returnType: "void"
 });
 
 let setlabel = builtInFunction({
@@ -148,7 +171,8 @@ let setlabel = builtInFunction({
     parameters: {
         label: "integer",
         text: "string"
-    }
+    },
+    returnType: "void"
 });
 
 let sprint = builtInFunction({
@@ -156,16 +180,18 @@ let sprint = builtInFunction({
     description: "\n```\nfun sprint(text: String) -> void\n```\nPrints the string `text` to the console. This will not print a new line by default.",
     parameters: {
         text: "string"
-    }
+    },
+    returnType: "void"
 });
 
 let sread = builtInFunction({
     name: "sread",
-    description: "\n```\nfun sread(address: Address<String>, prompt: String) -> void\n```\nPrompts the user to enter a string with the message `prompt` and stores the result in `address`.",
+    description: "\n```\nfun sread(address: Address<String>, prompt: String | Integer) -> void\n```\nPrompts the user to enter a string with the message `prompt` and stores the result in `address`. If `prompt` is -1, a default message is shown.",
     parameters: {
         address: "address",
-        prompt: "string"
-    }
+        prompt: ["string", "integer"]
+    },
+    returnType: "void"
 });
 
 let stoptimer = builtInFunction({
@@ -173,7 +199,8 @@ let stoptimer = builtInFunction({
     description: "\n```\nfun stoptimer(timer: Timer) -> void\n```\nStops the given timer. A reference to the timer can be obtained from `timer()`.",
     parameters: {
         timer: "integer"
-    }
+    },
+    returnType: "void"
 });
 
 let timer = builtInFunction({
@@ -182,17 +209,23 @@ let timer = builtInFunction({
     parameters: {
         milliseconds: "integer",
         function: "function"
-    }
+    },
+    returnType: "integer"
 });
 
 let init = builtInFunction({
     name: "init",
     description: "\n```\nfun init() -> void\n```\nThe main function for the program. This is the function that will be called when the program is run.",
-    parameters: {}
+    parameters: {},
+    returnType: "void"
 });
 
 export let keywordDescriptions = {
     else: '\n```\nelse "{" "\\n" <stmt-list> "}" "\\n" | \nelse <if-stmt>\n```\nA list of statements to be executed if the proceeding if statement\'s condition is false.',
     fun: "\n```\nfun <name: Identifier>\n```\nDefines a function with the name `name`",
+    if: '\n```\nif <expr> "{" "\\n" <stmt-list> "}" "\\n"\n```\nExecutes a list of statements if `expr` is not zero.',
+    loop: '\n```\nloop "{" "\\n" <stmt-list> "}" "\\n"\n```\nRepeats a list of statements until one of its `until` statements ends the loop.',
+    return: "\n```\nreturn | \nreturn <expr>\n```\nReturns from the current function with the value of `expr`, or 0 if there is no expression.",
+    until: "\n```\nuntil <expr>\n```\nEnds the enclosing loop if `expr` is not zero.",
     var: "\n```\nvar <name: Identifier>\n```\nDefines a variable with the name `name`"
 };
\ No newline at end of file
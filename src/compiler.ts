@@ -0,0 +1,380 @@
+import { Code, FunctionEntry, Lines, Opcode, Tape } from "../lib/MTVM";
+import { Token } from "./lexer";
+import { ArithmeticNode, ASTNode, FunDeclNode, IdListNode, TokenError } from "./parser";
+
+/**
+ * The function numbers MTVM uses for each built-in function.
+ */
+export let builtInCodes: { [key: string]: number } = {
+    iprint: -101,
+    sprint: -102,
+    iread: -103,
+    sread: -104,
+    nl: -105,
+    random: -106,
+    timer: -107,
+    stoptimer: -108,
+    alloc: -109,
+    free: -110,
+    i2s: -111,
+    makeimg: -201,
+    setimg: -202,
+    button: -203,
+    html: -204,
+    makelabel: -205,
+    setlabel: -206,
+    maketable: -207,
+    setcell: -208,
+    setcellcolor: -209,
+    buttonlabel: -210
+};
+
+let binaryOperations: { [key: string]: Opcode } = {
+    "+": Opcode.add,
+    "-": Opcode.sub,
+    "*": Opcode.mul,
+    "/": Opcode.div,
+    "%": Opcode.mod,
+    "&": Opcode.and,
+    "|": Opcode.or,
+    "^": Opcode.xor,
+    "==": Opcode.eq,
+    "!=": Opcode.neq,
+    "<": Opcode.lt,
+    "<=": Opcode.leq,
+    ">": Opcode.gt,
+    ">=": Opcode.geq,
+    "<<": Opcode.lshift,
+    ">>": Opcode.rshift
+};
+
+let escapeSequences: { [key: string]: string } = { b: "\b", n: "\n", r: "\r", t: "\t", "\\": "\\", "\"": "\"", "'": "'" };
+
+/**
+ * Replaces the escape sequences in the contents of a string or character literal with the characters they represent.
+ *
+ * @param text The literal without its quotes
+ *
+ * @returns The unescaped text.
+ */
+export function unescape(text: string): string {
+    return text.replace(/\\(.)/g, (sequence, char: string) => escapeSequences[char] ?? sequence);
+}
+
+type StatementListNode = ASTNode & { statement: ASTNode, next?: StatementListNode };
+type VarListNode = ASTNode & { idList: IdListNode, next?: VarListNode };
+type LiteralNode = ArithmeticNode & { value: string };
+type CallNode = ASTNode & { name: string, arguments?: ArithmeticNode & { next?: ArithmeticNode } };
+
+/**
+ * A `Compiler` takes the abstract syntax tree of a program produced by the {@link Parser} and generates an MTVM {@link Tape}.
+ */
+export default class Compiler {
+
+    /**
+     * The user-defined functions, in the order they are written to the tape.
+     */
+    private functions: FunDeclNode[] = [];
+
+    /**
+     * The address of each global variable.
+     */
+    readonly globals: Map<string, number> = new Map();
+
+    /**
+     * The names of the parameters and local variables of each function, indexed by function number. Filled in by
+     * {@link compile}.
+     */
+    readonly variables: { parameters: string[], locals: string[] }[] = [];
+
+    /**
+     * The offset from the frame pointer of each parameter and local variable of the function being compiled.
+     */
+    private locals: Map<string, number> = new Map();
+
+    /**
+     * The source line of each instruction in the compiled instruction lists.
+     */
+    private lines: Map<Code, number[]> = new Map();
+
+    /**
+     * The initial memory of the program as address/value pairs.
+     */
+    private initialMemory: [number, number][] = [];
+
+    /**
+     * The first address after the data segment. Address 0 is left unused so that it can be used as a null pointer.
+     */
+    private dataEnd = 1;
+
+    /**
+     * Creates a new compiler.
+     *
+     * @param program The `program` node returned by {@link Parser.parse}
+     */
+    constructor(public readonly program: ASTNode) { }
+
+    /**
+     * Compiles the program.
+     *
+     * @returns The compiled tape.
+     */
+    compile(): Tape {
+        let program = this.program as ASTNode & { varList?: VarListNode, funList?: FunDeclNode };
+
+        // Give each global variable a location in the data segment
+        this.forEachVariable(program.varList, id => {
+            this.globals.set(id.value, this.dataEnd);
+            this.initialMemory.push([this.dataEnd, 0]);
+            this.dataEnd++;
+        });
+
+        // Number the functions before compiling any of them so they can be called before they are declared
+        let func = program.funList;
+        while (func) {
+            this.functions.push(func);
+            func = func.next;
+        }
+
+        let entry = this.functions.findIndex(func => func.name === "init");
+        if (entry === -1) throw "Error: A program must declare a function named \"init\"";
+
+        let functionEntries = this.functions.map(func => this.compileFunction(func));
+        return [[entry, this.dataEnd], this.initialMemory, ...functionEntries];
+    }
+
+    /**
+     * Compiles a function declaration.
+     *
+     * Locals are stored directly above the frame pointer, followed by the parameters in the order they are declared.
+     *
+     * @param node The function declaration node
+     *
+     * @returns The tape entry for the function.
+     */
+    private compileFunction(node: FunDeclNode): FunctionEntry {
+        let body = node.body as ASTNode & { varList?: VarListNode, statementList?: StatementListNode };
+
+        let locals: string[] = [];
+        this.forEachVariable(body.varList, id => locals.push(id.value));
+
+        let parameters: string[] = [];
+        let param = node.arguments;
+        while (param) {
+            parameters.push(param.value);
+            param = param.next;
+        }
+
+        this.variables.push({ parameters: parameters, locals: locals });
+        this.locals = new Map();
+        locals.forEach((name, index) => this.locals.set(name, index + 1));
+        parameters.forEach((name, index) => this.locals.set(name, locals.length + index + 1));
+
+        // Functions that reach the end of their body return 0
+        let code = this.compileStatementList(body.statementList);
+        this.lines.get(code)!.push(node.endToken!.line, node.endToken!.line);
+        code.push(Opcode.push, 0);
+        return [node.name!, node.token!.line, parameters.length, locals.length, code, this.linesOf(code)];
+    }
+
+    /**
+     * Compiles a statement list.
+     *
+     * @param node The statement list node
+     *
+     * @returns The compiled statements.
+     */
+    private compileStatementList(node?: ASTNode): Code {
+        let code: Code = [];
+        let lines: number[] = [];
+        let list = node as StatementListNode | undefined;
+        while (list) {
+            let statement = this.compileStatement(list.statement);
+            code.push(...statement);
+            lines.push(...statement.map(() => this.lineOf(list!.statement)));
+            list = list.next;
+        }
+        this.lines.set(code, lines);
+        return code;
+    }
+
+    /**
+     * Compiles a statement.
+     *
+     * @param node The statement node
+     *
+     * @returns The compiled statement.
+     */
+    private compileStatement(node: ASTNode): Code {
+        switch (node.type) {
+            case "assignment": {
+                let assignment = node as ASTNode & { expression1: ArithmeticNode, expression2: ArithmeticNode };
+                return [...this.compileExpression(assignment.expression1), ...this.compileExpression(assignment.expression2), Opcode.store];
+            }
+            case "expression statement": {
+                let statement = node as ASTNode & { expression: ArithmeticNode };
+                return [...this.compileExpression(statement.expression), Opcode.pop];
+            }
+            case "if statement": {
+                let statement = node as ASTNode & { condition: ArithmeticNode, body: ASTNode, elseBody?: ASTNode };
+                let elseCode: Code = [];
+                if (statement.elseBody?.type === "if statement") elseCode = this.compileStatement(statement.elseBody);
+                else if (statement.elseBody) elseCode = this.compileStatementList(statement.elseBody);
+                if (!this.lines.has(elseCode)) this.lines.set(elseCode, elseCode.map(() => this.lineOf(statement.elseBody!)));
+                return [...this.compileExpression(statement.condition), Opcode.if, this.compileStatementList(statement.body), elseCode];
+            }
+            case "loop": {
+                let loop = node as ASTNode & { body?: ASTNode };
+                return [Opcode.loop, this.compileStatementList(loop.body)];
+            }
+            case "until statement": {
+                let statement = node as ASTNode & { expression: ArithmeticNode };
+                return [...this.compileExpression(statement.expression), Opcode.break];
+            }
+            case "return statement": {
+                let statement = node as ASTNode & { expression?: ArithmeticNode };
+                let value = statement.expression ? this.compileExpression(statement.expression) : [Opcode.push, 0];
+                return [...value, Opcode.return];
+            }
+        }
+        throw `Error: Unknown statement type "${node.type}"`;
+    }
+
+    /**
+     * Returns the source line a statement starts on.
+     *
+     * @param node The statement node
+     *
+     * @returns The zero-based line number.
+     */
+    private lineOf(node: ASTNode): number {
+        let statement = node as ASTNode & { token?: Token, expression?: ArithmeticNode, expression1?: ArithmeticNode };
+        if (statement.token) return statement.token.line;
+        return (statement.expression1 ?? statement.expression)!.operation.line;
+    }
+
+    /**
+     * Builds the {@link Lines} of a compiled instruction list from the lines recorded while compiling it.
+     *
+     * @param code The instruction list
+     *
+     * @returns The source lines, nested in the same way as the instructions.
+     */
+    private linesOf(code: Code): Lines {
+        let lines = this.lines.get(code)!;
+        return code.map((instruction, index) => Array.isArray(instruction) ? this.linesOf(instruction) : lines[index]);
+    }
+
+    /**
+     * Compiles an expression. The compiled code leaves the value of the expression on the stack.
+     *
+     * @param node The expression node
+     *
+     * @returns The compiled expression.
+     */
+    private compileExpression(node: ArithmeticNode): Code {
+        switch (node.type) {
+            case "binary expression":
+                return [...this.compileExpression(node.left as ArithmeticNode), ...this.compileExpression(node.right as ArithmeticNode), binaryOperations[node.operation.value]];
+            case "negation":
+                return [Opcode.push, 0, ...this.compileExpression(node.left as ArithmeticNode), Opcode.sub];
+            case "bitwise negation":
+                return [...this.compileExpression(node.left as ArithmeticNode), Opcode.not];
+            case "dereference":
+                return [...this.compileExpression(node.left as ArithmeticNode), Opcode.fetch];
+            case "expression": {
+                let expression = (node as ArithmeticNode & { expression?: ArithmeticNode }).expression;
+                if (!expression) throw new TokenError(node.operation, "Expected an expression inside parentheses");
+                return this.compileExpression(expression);
+            }
+            case "function call":
+                return this.compileFunctionCall(node);
+            case "integer":
+                return [Opcode.push, parseInt((node as LiteralNode).value, 10)];
+            case "character":
+                return [Opcode.push, unescape((node as LiteralNode).value.slice(1, -1)).charCodeAt(0)];
+            case "string":
+                return [Opcode.push, this.allocateString(unescape((node as LiteralNode).value.slice(1, -1)))];
+            case "identifier":
+                return this.compileIdentifier(node as LiteralNode);
+        }
+        throw new TokenError(node.operation, `Unknown expression type "${node.type}"`);
+    }
+
+    /**
+     * Compiles a function call. Arguments are pushed from last to first so that the first argument is on top of the stack.
+     *
+     * @param node The function call node
+     *
+     * @returns The compiled call.
+     */
+    private compileFunctionCall(node: ArithmeticNode): Code {
+        let call = node.left as CallNode;
+
+        let args: ArithmeticNode[] = [];
+        let arg: (ArithmeticNode & { next?: ArithmeticNode }) | undefined = call.arguments;
+        while (arg) {
+            args.push(arg);
+            arg = arg.next;
+        }
+
+        let code: Code = [];
+        args.reverse().forEach(arg => code.push(...this.compileExpression(arg)));
+
+        let index = this.functions.findIndex(func => func.name === call.name);
+        if (index !== -1) return [...code, Opcode.call, index];
+        if (call.name in builtInCodes) return [...code, Opcode.call, builtInCodes[call.name]];
+        throw new TokenError(node.operation, `Function "${call.name}" is undefined`);
+    }
+
+    /**
+     * Compiles an identifier. Variables evaluate to their address and functions evaluate to their function number.
+     *
+     * @param node The identifier node
+     *
+     * @returns The compiled identifier.
+     */
+    private compileIdentifier(node: LiteralNode): Code {
+        let local = this.locals.get(node.value);
+        if (local !== undefined) return [Opcode.push, local, Opcode.fpplus];
+
+        let global = this.globals.get(node.value);
+        if (global !== undefined) return [Opcode.push, global];
+
+        let index = this.functions.findIndex(func => func.name === node.value);
+        if (index !== -1) return [Opcode.push, index];
+
+        throw new TokenError(node.operation, `Variable "${node.value}" is undefined`);
+    }
+
+    /**
+     * Stores a NUL-terminated string in the data segment.
+     *
+     * @param text The string to store
+     *
+     * @returns The address of the string.
+     */
+    private allocateString(text: string): number {
+        let address = this.dataEnd;
+        for (let i = 0; i < text.length; i++) this.initialMemory.push([this.dataEnd++, text.charCodeAt(i)]);
+        this.initialMemory.push([this.dataEnd++, 0]);
+        return address;
+    }
+
+    /**
+     * Calls `callback` with each identifier in a variable list.
+     *
+     * @param node The variable list node
+     * @param callback The function to call
+     */
+    private forEachVariable(node: VarListNode | undefined, callback: (id: IdListNode) => void): void {
+        while (node) {
+            let id: IdListNode | undefined = node.idList;
+            while (id) {
+                callback(id);
+                id = id.next;
+            }
+            node = node.next;
+        }
+    }
+}
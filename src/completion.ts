@@ -0,0 +1,118 @@
+import { CompletionItem, CompletionItemKind, InsertTextFormat, MarkupContent, MarkupKind, Position } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { builtInFunctions, keywordDescriptions } from "./builtins";
+import { findDocumentation } from "./hover";
+import tokenize from "./lexer";
+import Parser, { Declaration } from "./parser";
+
+/**
+ * The keyword snippets offered by completion, and whether they are offered outside of functions, inside them, or both.
+ */
+let keywordSnippets: { label: string, detail: string, body: string, topLevel: boolean, inFunction: boolean }[] = [
+    { label: "fun", detail: "Function declaration", body: "fun ${1:name}(${2}) {\n\t$0\n}", topLevel: true, inFunction: false },
+    { label: "var", detail: "Variable declaration", body: "var ${1:name}", topLevel: true, inFunction: true },
+    { label: "if", detail: "If statement", body: "if ${1:condition} {\n\t$0\n}", topLevel: false, inFunction: true },
+    { label: "if/else", detail: "If-else statement", body: "if ${1:condition} {\n\t$2\n}\nelse {\n\t$0\n}", topLevel: false, inFunction: true },
+    { label: "else", detail: "Else block", body: "else {\n\t$0\n}", topLevel: false, inFunction: true },
+    { label: "loop", detail: "Loop with an until condition", body: "loop {\n\t$0\n\tuntil ${1:condition}\n}", topLevel: false, inFunction: true },
+    { label: "until", detail: "Loop exit condition", body: "until ${1:condition}", topLevel: false, inFunction: true },
+    { label: "return", detail: "Return statement", body: "return ${1:value}", topLevel: false, inFunction: true }
+];
+
+/**
+ * Creates a snippet that calls a function, with a placeholder for each parameter.
+ *
+ * @param name The name of the function
+ * @param parameters The names of the parameters
+ *
+ * @returns The snippet.
+ */
+function callSnippet(name: string, parameters: string[]): string {
+    return `${name}(${parameters.map((parameter, index) => `\${${index + 1}:${parameter}}`).join(", ")})`;
+}
+
+/**
+ * Creates documentation written in Markdown.
+ *
+ * @param value The Markdown text
+ *
+ * @returns The documentation.
+ */
+function markdown(value: string): MarkupContent {
+    return { kind: MarkupKind.Markdown, value: value };
+}
+
+/**
+ * Creates the completion item for a variable, parameter or user-defined function.
+ *
+ * @param declaration The declaration to complete
+ * @param code The source code of the program, to find documentation in
+ *
+ * @returns The completion item.
+ */
+function declarationCompletion(declaration: Declaration, code: string): CompletionItem {
+    if (declaration.kind === "function") {
+        let parameters = declaration.parameters!.map(parameter => parameter.name);
+        let item: CompletionItem = { label: declaration.name, kind: CompletionItemKind.Function };
+        item.detail = `fun ${declaration.name}(${parameters.join(", ")})`;
+        let documentation = findDocumentation(code, declaration);
+        if (documentation) item.documentation = markdown(documentation);
+        item.insertText = callSnippet(declaration.name, parameters);
+        item.insertTextFormat = InsertTextFormat.Snippet;
+        return item;
+    }
+    return { label: declaration.name, kind: CompletionItemKind.Variable, detail: declaration.kind };
+}
+
+/**
+ * Returns whether or not completions should be offered at the end of a line prefix. Nothing is completed inside strings,
+ * comments, or where a new name is being declared.
+ *
+ * @param prefix The text of the line before the cursor
+ *
+ * @returns whether or not to offer completions.
+ */
+function canComplete(prefix: string): boolean {
+    let code = prefix.replace(/"([^"\\]|\\.)*"/g, "\"\"");
+    if (/["#]/.test(code.replace(/""/g, ""))) return false;
+    if (/\b(fun|var)\s+(\w+\s*,\s*)*\w*$/.test(code)) return false;
+    return true;
+}
+
+/**
+ * Completes keywords, built-in functions, and the variables and functions in scope at the cursor.
+ *
+ * @param document The document being edited
+ * @param position The position of the cursor
+ *
+ * @returns The completion items, or `null` if nothing should be completed at the position.
+ */
+export function provideCompletions(document: TextDocument, position: Position): CompletionItem[] | null {
+    let prefix = (document.getText().split("\n")[position.line] ?? "").substring(0, position.character);
+    if (!canComplete(prefix)) return null;
+
+    let parser = new Parser(tokenize(document.getText()));
+    parser.parse();
+    let { declarations, inFunction } = parser.declarationsAt(position.line, position.character);
+
+    let items = keywordSnippets.filter(keyword => inFunction ? keyword.inFunction : keyword.topLevel).map(keyword => {
+        let item: CompletionItem = { label: keyword.label, kind: CompletionItemKind.Snippet, detail: keyword.detail, insertText: keyword.body, insertTextFormat: InsertTextFormat.Snippet };
+        let description = keywordDescriptions[keyword.label as keyof typeof keywordDescriptions];
+        if (description) item.documentation = markdown(description);
+        return item;
+    });
+    if (!inFunction) return items;
+
+    declarations.forEach(declaration => items.push(declarationCompletion(declaration, document.getText())));
+    builtInFunctions.filter(func => func.name !== "init" && !declarations.some(declaration => declaration.name === func.name)).forEach(func => {
+        items.push({
+            label: func.name,
+            kind: CompletionItemKind.Function,
+            detail: "built-in function",
+            documentation: markdown(func.description),
+            insertText: callSnippet(func.name, Object.keys(func.parameters)),
+            insertTextFormat: InsertTextFormat.Snippet
+        });
+    });
+    return items;
+}
@@ -0,0 +1,36 @@
+import * as vscode from "vscode";
+import TranquilityDebugSession from "./debugSession";
+
+/**
+ * Registers the Tranquility debugger, which runs debug sessions inside the extension.
+ *
+ * @param context The extension context
+ */
+export function registerDebugger(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.debug.registerDebugAdapterDescriptorFactory("tranquility", {
+            createDebugAdapterDescriptor() {
+                return new vscode.DebugAdapterInlineImplementation(new TranquilityDebugSession(prompt => vscode.window.showInputBox({ prompt: prompt || "Input", ignoreFocusOut: true })));
+            }
+        }),
+        vscode.debug.registerDebugConfigurationProvider("tranquility", {
+            resolveDebugConfiguration(folder, config) {
+
+                // Debug the active file when there is no launch.json
+                if (!config.type && !config.request && !config.name) {
+                    let document = vscode.window.activeTextEditor?.document;
+                    if (document?.languageId !== "tranquility") return config;
+                    config.type = "tranquility";
+                    config.name = "Debug Tranquility file";
+                    config.request = "launch";
+                    config.program = "${file}";
+                }
+                if (!config.program) {
+                    vscode.window.showErrorMessage("Set \"program\" to the Tranquility file to debug.");
+                    return undefined;
+                }
+                return config;
+            }
+        })
+    );
+}
@@ -0,0 +1,351 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DebugSession, Handles, InitializedEvent, OutputEvent, Scope, Source, StackFrame, StoppedEvent, TerminatedEvent, Thread } from "@vscode/debugadapter";
+import { DebugProtocol } from "@vscode/debugprotocol";
+import MTVM, { FunctionEntry, Lines } from "../lib/MTVM";
+import { HeadlessGui } from "../lib/gui";
+import { Host } from "../lib/host";
+import Compiler from "./compiler";
+import tokenize from "./lexer";
+import Parser, { TokenError } from "./parser";
+
+interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
+
+    /** The path of the Tranquility file to debug. */
+    program: string;
+
+    /** Whether to stop before the first instruction of `init`. */
+    stopOnEntry?: boolean;
+}
+
+type StepMode = "continue" | "next" | "stepIn" | "stepOut";
+
+/**
+ * A function activation on the MTVM stack.
+ */
+interface Frame {
+
+    /** The function number. */
+    function: number;
+
+    /** The frame pointer of the activation. */
+    fp: number;
+
+    /** The source line the activation is stopped at. */
+    line: number;
+}
+
+/**
+ * The number of instructions executed between yields to the event loop, so that pause requests are handled.
+ */
+const yieldInterval = 10000;
+
+/**
+ * Asks the user for a line of input.
+ *
+ * @param prompt The prompt message
+ *
+ * @returns The line, or `undefined` if the user dismissed the prompt.
+ */
+export type InputPrompt = (prompt: string) => PromiseLike<string | undefined>;
+
+/**
+ * A host that sends program output to the debug console and asks for input through the editor.
+ */
+class DebugConsoleHost implements Host {
+
+    gui = new HeadlessGui();
+
+    /**
+     * Creates a new debug console host.
+     *
+     * @param session The session whose debug console receives the output
+     * @param prompt Asks the user for input
+     */
+    constructor(private readonly session: TranquilityDebugSession, private readonly prompt: InputPrompt) { }
+
+    write(text: string): void {
+        this.session.sendEvent(new OutputEvent(text, "stdout"));
+    }
+
+    async readLine(prompt: string): Promise<string> {
+        this.write(prompt);
+        let line = await this.prompt(prompt) ?? "";
+        this.write(line + "\n");
+        return line;
+    }
+}
+
+/**
+ * A debug adapter that compiles a Tranquility file and runs it one instruction at a time in MTVM, using the source lines
+ * the compiler records for each instruction.
+ */
+export default class TranquilityDebugSession extends DebugSession {
+
+    private static readonly threadId = 1;
+
+    private vm: MTVM | null = null;
+    private compiler: Compiler;
+    private source: Source;
+
+    /** The zero-based lines that have breakpoints. */
+    private breakpoints: Set<number> = new Set();
+
+    /** The zero-based lines that have at least one instruction. */
+    private executableLines: Set<number> = new Set();
+
+    private frames: Frame[] = [];
+    private variableHandles = new Handles<{ frame?: Frame, kind: "parameters" | "locals" | "globals" }>();
+    private pauseRequested = false;
+    private configurationDone: () => void;
+    private configured = new Promise<void>(resolve => this.configurationDone = resolve);
+
+    /**
+     * Creates a new debug session.
+     *
+     * @param prompt Asks the user for the input the program reads
+     */
+    constructor(private readonly prompt: InputPrompt) {
+        super();
+        this.setDebuggerLinesStartAt1(false);
+        this.setDebuggerColumnsStartAt1(false);
+    }
+
+    protected override initializeRequest(response: DebugProtocol.InitializeResponse, args: DebugProtocol.InitializeRequestArguments): void {
+        response.body = {
+            supportsConfigurationDoneRequest: true,
+            supportsTerminateRequest: true
+        };
+        this.sendResponse(response);
+    }
+
+    protected override async launchRequest(response: DebugProtocol.LaunchResponse, args: LaunchRequestArguments): Promise<void> {
+        try {
+            let parser = new Parser(tokenize(fs.readFileSync(args.program, "utf8")));
+            let AST = parser.parse();
+            if (parser.errors.length) throw parser.errors[0];
+            this.compiler = new Compiler(AST);
+            this.vm = new MTVM(this.compiler.compile(), new DebugConsoleHost(this, this.prompt));
+        }
+        catch (error) {
+            let message = error instanceof TokenError ? `${error.message} (line ${error.token.line + 1})` : String(error);
+            this.sendErrorResponse(response, 1, `Cannot debug ${path.basename(args.program)}: ${message}`);
+            return;
+        }
+
+        this.source = new Source(path.basename(args.program), this.convertDebuggerPathToClient(args.program));
+        this.vm.tape.slice(2).forEach(func => this.collectLines((func as FunctionEntry)[5] ?? []));
+
+        // Breakpoints can only be verified once the program is compiled
+        this.sendEvent(new InitializedEvent());
+        await this.configured;
+        this.sendResponse(response);
+
+        if (args.stopOnEntry) this.sendEvent(new StoppedEvent("entry", TranquilityDebugSession.threadId));
+        else this.resume("continue");
+    }
+
+    protected override configurationDoneRequest(response: DebugProtocol.ConfigurationDoneResponse, args: DebugProtocol.ConfigurationDoneArguments): void {
+        this.sendResponse(response);
+        this.configurationDone();
+    }
+
+    protected override setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): void {
+        this.breakpoints.clear();
+        response.body = {
+            breakpoints: (args.breakpoints ?? []).map(breakpoint => {
+                let line = this.convertClientLineToDebugger(breakpoint.line);
+                let verified = this.executableLines.has(line);
+                if (verified) this.breakpoints.add(line);
+                return { verified: verified, line: breakpoint.line, message: verified ? undefined : "There is no code on this line" };
+            })
+        };
+        this.sendResponse(response);
+    }
+
+    protected override threadsRequest(response: DebugProtocol.ThreadsResponse): void {
+        response.body = { threads: [new Thread(TranquilityDebugSession.threadId, "init")] };
+        this.sendResponse(response);
+    }
+
+    protected override stackTraceRequest(response: DebugProtocol.StackTraceResponse, args: DebugProtocol.StackTraceArguments): void {
+        this.frames = this.collectFrames();
+        let start = args.startFrame ?? 0;
+        let end = args.levels ? start + args.levels : this.frames.length;
+        response.body = {
+            stackFrames: this.frames.slice(start, end).map((frame, index) => {
+                return new StackFrame(start + index, this.vm!.functionName(frame.function), this.source, this.convertDebuggerLineToClient(frame.line));
+            }),
+            totalFrames: this.frames.length
+        };
+        this.sendResponse(response);
+    }
+
+    protected override scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): void {
+        let frame = this.frames[args.frameId];
+        response.body = {
+            scopes: [
+                new Scope("Parameters", this.variableHandles.create({ frame: frame, kind: "parameters" })),
+                new Scope("Locals", this.variableHandles.create({ frame: frame, kind: "locals" })),
+                new Scope("Globals", this.variableHandles.create({ kind: "globals" }), true)
+            ]
+        };
+        this.sendResponse(response);
+    }
+
+    protected override variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments): void {
+        let reference = this.variableHandles.get(args.variablesReference);
+        let memory = this.vm!.memory;
+        let variables: DebugProtocol.Variable[] = [];
+
+        if (reference?.kind === "globals") {
+            this.compiler.globals.forEach((address, name) => variables.push(this.variable(name, address, memory[address])));
+        }
+
+        // Locals are stored directly above the frame pointer, followed by the parameters
+        else if (reference?.frame) {
+            let frame = reference.frame;
+            let names = this.compiler.variables[frame.function];
+            let offset = reference.kind === "locals" ? 1 : names.locals.length + 1;
+            let list = reference.kind === "locals" ? names.locals : names.parameters;
+            list.forEach((name, index) => variables.push(this.variable(name, frame.fp + offset + index, memory[frame.fp + offset + index])));
+        }
+
+        response.body = { variables: variables };
+        this.sendResponse(response);
+    }
+
+    protected override continueRequest(response: DebugProtocol.ContinueResponse, args: DebugProtocol.ContinueArguments): void {
+        this.sendResponse(response);
+        this.resume("continue");
+    }
+
+    protected override nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): void {
+        this.sendResponse(response);
+        this.resume("next");
+    }
+
+    protected override stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments): void {
+        this.sendResponse(response);
+        this.resume("stepIn");
+    }
+
+    protected override stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments): void {
+        this.sendResponse(response);
+        this.resume("stepOut");
+    }
+
+    protected override pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments): void {
+        this.pauseRequested = true;
+        this.sendResponse(response);
+    }
+
+    protected override terminateRequest(response: DebugProtocol.TerminateResponse, args: DebugProtocol.TerminateArguments): void {
+        this.vm?.stop();
+        this.sendResponse(response);
+        this.sendEvent(new TerminatedEvent());
+    }
+
+    protected override disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments): void {
+        this.vm?.stop();
+        this.sendResponse(response);
+    }
+
+    /**
+     * Resumes the program in the background. A runtime error is shown in the debug console and ends the session, since
+     * the program cannot continue past it.
+     *
+     * @param mode How far to run
+     */
+    private resume(mode: StepMode): void {
+        this.execute(mode).catch(error => {
+            this.sendEvent(new OutputEvent(`${error}\n`, "stderr"));
+            this.sendEvent(new TerminatedEvent());
+        });
+    }
+
+    /**
+     * Runs the program until it reaches a line where execution should stop for the given step mode, hits a breakpoint, is
+     * paused, or halts.
+     *
+     * @param mode How far to run
+     */
+    private async execute(mode: StepMode): Promise<void> {
+        let vm = this.vm!;
+        let startDepth = this.depth();
+        let startLine = vm.line;
+        let previousLine = startLine;
+        let count = 0;
+        this.pauseRequested = false;
+        this.variableHandles.reset();
+
+        while (await vm.step()) {
+            if (++count % yieldInterval === 0) await new Promise(resolve => setImmediate(resolve));
+
+            // Only stop at the first instruction of a line
+            let line = vm.line;
+            if (line === undefined || line === previousLine) continue;
+            previousLine = line;
+
+            let depth = this.depth();
+            let reason: string | null = null;
+            if (this.breakpoints.has(line)) reason = "breakpoint";
+            else if (this.pauseRequested) reason = "pause";
+            else if (mode === "stepIn") reason = "step";
+            else if (mode === "next" && (depth < startDepth || depth === startDepth && line !== startLine)) reason = "step";
+            else if (mode === "stepOut" && depth < startDepth) reason = "step";
+
+            if (reason) {
+                this.sendEvent(new StoppedEvent(reason, TranquilityDebugSession.threadId));
+                return;
+            }
+        }
+
+        this.sendEvent(new TerminatedEvent());
+    }
+
+    /**
+     * Returns the number of function activations on the stack.
+     */
+    private depth(): number {
+        return this.vm!.blocks.filter(block => block.kind === "function").length;
+    }
+
+    /**
+     * Builds the call stack, innermost activation first. Frame pointers are found by following the saved frame pointer
+     * stored at each frame pointer.
+     *
+     * @returns The function activations on the stack.
+     */
+    private collectFrames(): Frame[] {
+        let vm = this.vm!;
+        let frames: Frame[] = [];
+        let fp = vm.fp;
+        let innermost = true;
+        for (let i = vm.blocks.length - 1; i >= 0; i--) {
+            let block = vm.blocks[i];
+
+            // The innermost block of each caller has already moved past the operand of its `call` instruction
+            let line = block.lines?.[innermost ? block.pc : block.pc - 1];
+            let func = vm.tape[block.function + 2] as FunctionEntry;
+            frames.push({ function: block.function, fp: fp, line: typeof line === "number" ? line : func[1] });
+
+            // Skip the rest of this activation's blocks
+            while (vm.blocks[i].kind !== "function") i--;
+            fp = vm.memory[fp];
+            innermost = false;
+        }
+        return frames;
+    }
+
+    private collectLines(lines: Lines): void {
+        lines.forEach(line => {
+            if (typeof line === "number") this.executableLines.add(line);
+            else this.collectLines(line);
+        });
+    }
+
+    private variable(name: string, address: number, value: number): DebugProtocol.Variable {
+        return { name: name, value: String(value), type: `@${address}`, variablesReference: 0 };
+    }
+}
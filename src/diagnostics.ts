@@ -1,75 +1,98 @@
-import * as vscode from "vscode";
-import tokenize, { Token } from "./lexer";
-import Parser, { TokenError } from "./parser";
+import TypeInference from "./inference";
+import tokenize, { Range, Token, tokenRange } from "./lexer";
+import Parser, { Declaration, Severity, TokenError } from "./parser";
 
-export function refreshDiagnostics(doc: vscode.TextDocument, tranqDiagnostics: vscode.DiagnosticCollection): void {
-    if (!/\.t$/i.test(doc.uri.path)) return;
+/**
+ * A problem found in a Tranquility program.
+ */
+export interface Problem {
+    range: Range;
+    message: string;
+    severity: Severity;
 
-    let diagnostics: vscode.Diagnostic[] = [];
+    /** Whether or not the problem marks code that is unnecessary, such as a variable that is never used. */
+    unnecessary?: boolean;
+}
+
+/**
+ * Runs every check on a Tranquility program: unrecognized tokens, parse errors, type errors and unused declarations.
+ *
+ * @param code The source code to check
+ *
+ * @returns The problems found, at most one per token.
+ */
+export function findProblems(code: string): Problem[] {
+    let problems: Problem[] = [];
 
     try {
         // Tokenize the code
-        let tokens = tokenize(doc.getText());
+        let tokens = tokenize(code);
 
         // Error unrecognized tokens
         for (let i = 0; i < tokens.length; i++) {
             let token = tokens[i];
             if (token.type === "unrecognized") {
-                if (/^;+$/.test(token.value)) createTokenDiagnostic(diagnostics, token, `Semicolons are not allowed in Tranquility. Simply end statements with a new line.`, vscode.DiagnosticSeverity.Error);
-                else if (/^\r+$/.test(token.value)) createTokenDiagnostic(diagnostics, token, `Carriage returns are not allowed in Tranquility. Read the README to learn how to remove them.`, vscode.DiagnosticSeverity.Error);
-                else if (/^=$/.test(token.value)) createTokenDiagnostic(diagnostics, token, "Equal signs are not used in Tranquility. To store a value into a memory address, use <address> \":\" <value>", vscode.DiagnosticSeverity.Error);
-                else createTokenDiagnostic(diagnostics, token, `Unrecognized token "${token.value}"`, vscode.DiagnosticSeverity.Error);
+                if (/^;+$/.test(token.value)) createTokenProblem(problems, token, `Semicolons are not allowed in Tranquility. Simply end statements with a new line.`, Severity.Error);
+                else if (/^\r+$/.test(token.value)) createTokenProblem(problems, token, `Carriage returns are not allowed in Tranquility. Read the README to learn how to remove them.`, Severity.Error);
+                else if (/^=$/.test(token.value)) createTokenProblem(problems, token, "Equal signs are not used in Tranquility. To store a value into a memory address, use <address> \":\" <value>", Severity.Error);
+                else createTokenProblem(problems, token, `Unrecognized token "${token.value}"`, Severity.Error);
             }
         }
 
         // Check for parsing errors
-        let AST = new Parser(tokens, diagnostics).parse();
-        console.log(AST);
+        let parser = new Parser(tokens);
+        let AST = parser.parse();
+        [...parser.errors, ...parser.warnings].forEach(error => createTokenProblem(problems, error.token, error.message, error.severity));
+
+        // Check for values that are used in a way their type does not allow
+        new TypeInference(AST, parser.declarations).infer().errors.forEach(error => createTokenProblem(problems, error.token, error.message, error.severity));
+
+        // Fade out declarations that are never used. References in code that was skipped after a syntax error are
+        // missing, so only check programs where nothing was skipped.
+        if (!parser.skippedTokens) {
+            parser.declarations.forEach(declaration => {
+                let isLocal = declaration.kind === "parameter" || parser.declarationsAt(declaration.token.line, declaration.token.column).inFunction;
+                let message = describeUnused(declaration, isLocal);
+                if (message) createTokenProblem(problems, declaration.token, message, Severity.Warning, true);
+            });
+        }
     }
 
     catch (error) {
-        // Handle token errors as diagnostics
-        if (error instanceof TokenError) createTokenDiagnostic(diagnostics, error.token, error.message, error.severity);
-        else console.log(error);
+        // Handle token errors as problems
+        if (error instanceof TokenError) createTokenProblem(problems, error.token, error.message, error.severity);
+
+        // Anything else is a bug in the checks. Standard output may be the language server's connection, so log to
+        // standard error.
+        else console.error(error);
     }
 
-    tranqDiagnostics.set(doc.uri, diagnostics);
+    return problems;
 }
 
-export function createTokenDiagnostic(diagnostics: vscode.Diagnostic[], token: Token, message: string, severity: vscode.DiagnosticSeverity = vscode.DiagnosticSeverity.Error): void {
-    if (token.hasDiagnostic) return;
-    let start: string;
-    switch (severity) {
-        case vscode.DiagnosticSeverity.Error: start = "❌ Error: "; break;
-        case vscode.DiagnosticSeverity.Warning: start = "⚠️ Warning: "; break;
-        case vscode.DiagnosticSeverity.Information: start = "🔵 Info: "; break;
-        case vscode.DiagnosticSeverity.Hint: start = "❔ Hint: "; break;
+/**
+ * Describes why a declaration is unnecessary: a variable or parameter that is never referenced, a function that is never
+ * called, or a local variable that is assigned but never read.
+ *
+ * @param declaration The declaration to check
+ * @param isLocal Whether or not the declaration is inside a function
+ *
+ * @returns The warning message, or `undefined` if the declaration is used.
+ */
+function describeUnused(declaration: Declaration, isLocal: boolean): string | undefined {
+    let kind = declaration.kind === "parameter" ? "Parameter" : "Variable";
+    if (declaration.kind === "function") {
+        if (declaration.name !== "init" && !declaration.references.length) return `Function "${declaration.name}" is never called`;
     }
-    let range = new vscode.Range(token.line, token.column, token.line, token.column + token.value.length);
-    let diagnostic = new vscode.Diagnostic(range, start! + message, severity);
-    token.hasDiagnostic = true;
-    diagnostics.push(diagnostic);
+    else if (!declaration.references.length) return `${kind} "${declaration.name}" is declared but never used`;
+    else if (isLocal && declaration.references.length === declaration.assignments.length) return `${kind} "${declaration.name}" is assigned a value but never read`;
+    return undefined;
 }
 
-export function subscribeToDocumentChanges(context: vscode.ExtensionContext, tranqDiagnostics: vscode.DiagnosticCollection): void {
-    if (vscode.window.activeTextEditor) refreshDiagnostics(vscode.window.activeTextEditor.document, tranqDiagnostics);
-    context.subscriptions.push(
-        vscode.window.onDidChangeActiveTextEditor(editor => {
-            if (editor) refreshDiagnostics(editor.document, tranqDiagnostics);
-        })
-    );
-    context.subscriptions.push(
-        vscode.workspace.onDidChangeTextDocument(editor => {
-            refreshDiagnostics(editor.document, tranqDiagnostics);
-        })
-    );
-    context.subscriptions.push(
-        vscode.workspace.onDidCloseTextDocument(document => {
-            tranqDiagnostics.delete(document.uri);
-        })
-    );
+export function createTokenProblem(problems: Problem[], token: Token, message: string, severity: Severity = Severity.Error, unnecessary?: boolean): void {
+    if (token.hasDiagnostic) return;
+    let problem: Problem = { range: tokenRange(token), message: message, severity: severity };
+    if (unnecessary) problem.unnecessary = true;
+    token.hasDiagnostic = true;
+    problems.push(problem);
 }
-
-export function tokenNonError(diagnostics: vscode.Diagnostic[], token: Token, message: string, severity: vscode.DiagnosticSeverity) {
-    createTokenDiagnostic(diagnostics, token, message, severity);
-}
\ No newline at end of file
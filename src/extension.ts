@@ -1,21 +1,53 @@
+import * as path from "path";
 import * as vscode from "vscode";
-import { subscribeToDocumentChanges } from "./diagnostics";
-import { builtInFunctions } from "./builtins";
+import { LanguageClient, TransportKind } from "vscode-languageclient/node";
+import { registerDebugger } from "./debug";
+import { quickFixCommands } from "./quickfixes";
+import { registerRunCommands } from "./run";
 
-export function activate(context: vscode.ExtensionContext): void {
+/**
+ * The client of the Tranquility language server, which provides every editor feature other than running and debugging.
+ */
+let client: LanguageClient | undefined;
 
-    let tranqDiagnostics = vscode.languages.createDiagnosticCollection("tranquility");
-    context.subscriptions.push(tranqDiagnostics);
-    subscribeToDocumentChanges(context, tranqDiagnostics);
+/**
+ * Runs one of the quick fix commands of the language server in the editor, where it can do more than the plain edit the
+ * server would make.
+ *
+ * @param command The command to run
+ * @param args The arguments of the command
+ *
+ * @returns whether or not the command was run.
+ */
+async function runQuickFixCommand(command: string, args: unknown[]): Promise<boolean> {
+    if (typeof args[0] !== "string") return false;
+    let editor = await vscode.window.showTextDocument(vscode.Uri.parse(args[0]));
+    if (command === quickFixCommands.insertUntil) {
+        let [, position, indentation] = args as [string, { line: number, character: number }, string];
+        return editor.insertSnippet(new vscode.SnippetString(`${indentation}until \${1:condition}\n`), new vscode.Position(position.line, position.character));
+    }
+    if (command === quickFixCommands.convertToLF) return editor.edit(builder => builder.setEndOfLine(vscode.EndOfLine.LF));
+    return false;
+}
 
-    vscode.languages.registerHoverProvider("tranquility", {
-        provideHover(document, position, token) {
-            let range = document.getWordRangeAtPosition(position);
-            let word = document.getText(range);
+export function activate(context: vscode.ExtensionContext): void {
+    registerRunCommands(context);
+    registerDebugger(context);
 
-            let builtinFunction = builtInFunctions.find(func => func.name === word);
-            if (builtinFunction) return { contents: [builtinFunction.description] };
-            return null;
+    let server = context.asAbsolutePath(path.join("public", "src", "server.js"));
+    client = new LanguageClient("tranquility", "Tranquility Language Server", { module: server, transport: TransportKind.stdio }, {
+        documentSelector: [{ scheme: "file", language: "tranquility" }],
+        synchronize: { fileEvents: vscode.workspace.createFileSystemWatcher("**/*.{t,tranq}") },
+        middleware: {
+            executeCommand(command, args, next) {
+                if (Object.values(quickFixCommands).includes(command)) return runQuickFixCommand(command, args);
+                return next(command, args);
+            }
         }
     });
+    client.start();
+}
+
+export function deactivate(): Thenable<void> | undefined {
+    return client?.stop();
 }
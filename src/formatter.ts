@@ -0,0 +1,165 @@
+import { FormattingOptions, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import tokenize, { Token } from "./lexer";
+import Parser from "./parser";
+
+/**
+ * A line of source code being formatted. Lines that contain unrecognized tokens are kept as they were written, apart from
+ * their indentation.
+ */
+type Line = { tokens: Token[], comment?: Token, raw?: string };
+
+/**
+ * The token types after which a minus sign is a negation rather than a subtraction.
+ */
+let negationContexts: Token["type"][] = ["plus", "minus", "multiplicative", "comparison", "bitwise comparison", "bitwise shift", "xor", "colon", "comma", "left parentheses", "left brace", "keyword", "dot", "bitwise not"];
+
+/**
+ * Returns whether or not a space belongs between two tokens on the same line.
+ *
+ * @param previous The earlier token
+ * @param token The later token
+ * @param beforePrevious The token before `previous`, used to tell negation from subtraction
+ *
+ * @returns whether or not to separate the tokens with a space.
+ */
+function spaceBetween(previous: Token, token: Token, beforePrevious?: Token): boolean {
+    if (token.type === "right parentheses" || token.type === "comma") return false;
+    if (previous.type === "left parentheses" || previous.type === "dot" || previous.type === "bitwise not") return false;
+    if (token.type === "left parentheses" && previous.type === "identifier") return false;
+    if (previous.type === "minus" && (!beforePrevious || negationContexts.includes(beforePrevious.type))) return false;
+    return true;
+}
+
+/**
+ * Joins the tokens of a line with the spacing the formatter uses.
+ *
+ * @param tokens The tokens of the line
+ *
+ * @returns The formatted code, without indentation.
+ */
+function joinTokens(tokens: Token[]): string {
+    return tokens.map((token, i) => (i && spaceBetween(tokens[i - 1], token, tokens[i - 2]) ? " " : "") + token.value).join("");
+}
+
+/**
+ * Splits source code into lines of tokens. Braces on a line of their own are moved to the end of the line before, and
+ * `else` is moved to the line after the brace it follows, since Tranquility requires both.
+ *
+ * @param code The source code
+ *
+ * @returns The lines.
+ */
+function splitLines(code: string): Line[] {
+    let lines: Line[] = [];
+    code.split("\n").forEach(text => {
+        let comments: Token[] = [];
+        let tokens = tokenize(text, comments);
+        let line: Line = { tokens: tokens, comment: comments[0] };
+        if (tokens.some(token => token.type === "unrecognized")) line.raw = text.trim();
+
+        let previous = [...lines].reverse().find(line => line.tokens.length);
+        if (!line.raw && !line.comment && tokens.length === 1 && tokens[0].type === "left brace" && previous && !previous.raw && !previous.comment) {
+            previous.tokens.push(tokens[0]);
+            return;
+        }
+        if (!line.raw && tokens.length > 1 && tokens[0].type === "right brace" && tokens[1].value === "else") {
+            lines.push({ tokens: [tokens[0]] });
+            line.tokens = tokens.slice(1);
+        }
+        lines.push(line);
+    });
+    return lines;
+}
+
+/**
+ * Returns whether or not two versions of a program have the same meaning: the same tokens in the same order. Line breaks
+ * may only differ where the original program could not be parsed.
+ *
+ * @param original The original source code
+ * @param formatted The formatted source code
+ *
+ * @returns whether or not the programs are equivalent.
+ */
+function sameProgram(original: string, formatted: string): boolean {
+    let describe = (tokens: Token[]) => tokens.map(token => `${token.type}:${token.value}`).join(" ");
+    let originalComments: Token[] = [];
+    let formattedComments: Token[] = [];
+    let originalTokens = tokenize(original, originalComments);
+    let formattedTokens = tokenize(formatted, formattedComments);
+
+    if (originalComments.map(comment => comment.value.trimEnd()).join("\n") !== formattedComments.map(comment => comment.value.trimEnd()).join("\n")) return false;
+    let code = (tokens: Token[]) => tokens.filter(token => token.type !== "newline");
+    if (describe(code(originalTokens)) !== describe(code(formattedTokens))) return false;
+
+    let parser = new Parser([...originalTokens]);
+    parser.parse();
+    let lines = (tokens: Token[]) => tokens.map(token => token.type === "newline" ? token.type : `${token.type}:${token.value}`).join(" ").replace(/^(newline ?)|( ?newline)$/g, "");
+    return parser.errors.length > 0 || lines(originalTokens) === lines(formattedTokens);
+}
+
+/**
+ * Formats Tranquility source code. Indentation follows the nesting of braces, operators and commas are spaced
+ * consistently, runs of blank lines are collapsed, and functions are separated by a blank line. Comments are kept.
+ *
+ * @param code The source code to format
+ * @param indent The text to indent each level with
+ *
+ * @returns The formatted code, or the original code if formatting would change the meaning of the program.
+ */
+export function formatCode(code: string, indent: string = "    "): string {
+    // Strings cannot be split into lines
+    if (tokenize(code).some(token => token.type !== "newline" && token.value.includes("\n"))) return code;
+
+    let lines = splitLines(code);
+    let output: { text: string, depth: number, line?: Line }[] = [];
+    let depth = 0;
+    lines.forEach((line, i) => {
+        if (!line.tokens.length && !line.comment && !line.raw) {
+            // Blank lines are collapsed and never start or end a block
+            let next = lines.slice(i + 1).find(line => line.tokens.length || line.comment || line.raw);
+            let previous = output[output.length - 1];
+            if (!previous || !previous.text || previous.text.endsWith("{") || next?.tokens[0]?.type === "right brace") return;
+            output.push({ text: "", depth: depth });
+            return;
+        }
+
+        let lineDepth = Math.max(depth - (line.tokens[0]?.type === "right brace" ? 1 : 0), 0);
+        let text = line.raw ?? joinTokens(line.tokens);
+        if (line.comment && !line.raw) text += (text ? " " : "") + line.comment.value.trimEnd();
+        output.push({ text: indent.repeat(lineDepth) + text, depth: lineDepth, line: line });
+
+        line.tokens.forEach(token => {
+            if (token.type === "left brace") depth++;
+            if (token.type === "right brace") depth = Math.max(depth - 1, 0);
+        });
+    });
+    while (output.length && !output[output.length - 1].text) output.pop();
+
+    // Separate top-level functions, along with the comments above them, by a blank line
+    for (let i = output.length - 1; i > 0; i--) {
+        let line = output[i].line;
+        if (output[i].depth !== 0 || line?.tokens[0]?.value !== "fun") continue;
+        let start = i;
+        while (start > 0 && output[start - 1].depth === 0 && output[start - 1].line && !output[start - 1].line!.tokens.length) start--;
+        if (start > 0 && output[start - 1].text) output.splice(start, 0, { text: "", depth: 0 });
+    }
+
+    let formatted = output.map(line => line.text).join("\n") + (output.length ? "\n" : "");
+    return sameProgram(code, formatted) ? formatted : code;
+}
+
+/**
+ * Formats a Tranquility document.
+ *
+ * @param document The document to format
+ * @param options The indentation settings of the editor
+ *
+ * @returns An edit that replaces the document with its formatted code, or no edits if it is already formatted.
+ */
+export function provideFormattingEdits(document: TextDocument, options: FormattingOptions): TextEdit[] {
+    let code = document.getText();
+    let formatted = formatCode(code, options.insertSpaces ? " ".repeat(options.tabSize) : "\t");
+    if (formatted === code) return [];
+    return [TextEdit.replace(Range.create(document.positionAt(0), document.positionAt(code.length)), formatted)];
+}
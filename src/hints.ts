@@ -0,0 +1,36 @@
+import { InlayHint, InlayHintKind, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { inferTypes } from "./inference";
+import { rangeContains, Token } from "./lexer";
+import { ASTNode, FunDeclNode } from "./parser";
+
+/**
+ * Creates inlay hints that show the inferred types of variables, parameters and function return values.
+ *
+ * @param document The document to show hints in
+ * @param range The visible range of the document
+ *
+ * @returns The hints inside the range.
+ */
+export function provideInlayHints(document: TextDocument, range: Range): InlayHint[] {
+    let { program, declarations, types } = inferTypes(document.getText());
+    let hints: InlayHint[] = [];
+    let hint = (token: Token, label: string) => {
+        let position = { line: token.line, character: token.column + token.value.length };
+        if (rangeContains(range, position)) hints.push(InlayHint.create(position, label, InlayHintKind.Type));
+    };
+
+    // Only types that are known are shown
+    declarations.filter(declaration => declaration.kind !== "function").forEach(declaration => {
+        let type = types.typeOf(declaration);
+        if (type !== "any") hint(declaration.token, `: ${type}`);
+    });
+    let func = (program as ASTNode & { funList?: FunDeclNode }).funList;
+    while (func) {
+        let declaration = declarations.find(declaration => declaration.token === func!.token);
+        let type = declaration && types.typeOf(declaration);
+        if (type && type !== "any" && func.parametersEndToken) hint(func.parametersEndToken, ` -> ${type}`);
+        func = func.next;
+    }
+    return hints;
+}
@@ -0,0 +1,94 @@
+import { Hover, MarkupKind, Position } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { builtInFunctions, keywordDescriptions } from "./builtins";
+import { describeType, inferTypes } from "./inference";
+import tokenize, { Token } from "./lexer";
+import { ASTNode, Declaration, FunDeclNode } from "./parser";
+
+/**
+ * Finds the documentation of a function: the block of `#` comments on the lines directly above its declaration. Comments
+ * that follow code on the same line are not part of the block.
+ *
+ * @param code The source code of the program
+ * @param declaration The declaration of the function
+ *
+ * @returns The text of the comments without their `#` markers, or `undefined` if the function is undocumented.
+ */
+export function findDocumentation(code: string, declaration: Declaration): string | undefined {
+    let comments: Token[] = [];
+    let tokens = tokenize(code, comments);
+    let lines: string[] = [];
+    for (let line = declaration.token.line - 1; line >= 0; line--) {
+        let comment = comments.find(comment => comment.line === line);
+        if (!comment || tokens.some(token => token.line === line && token.type !== "newline")) break;
+        lines.unshift(comment.value.replace(/^#\s?/, ""));
+    }
+    return lines.length ? lines.join("\n") : undefined;
+}
+
+/**
+ * Describes where a variable or parameter was declared.
+ *
+ * @param program The program node
+ * @param declaration The declaration of the variable or parameter
+ *
+ * @returns A sentence such as "Local variable of `init`, declared on line 3".
+ */
+function describeLocation(program: ASTNode, declaration: Declaration): string {
+    let func = (program as ASTNode & { funList?: FunDeclNode }).funList;
+    while (func) {
+        if (func.token && func.endToken && func.token.line <= declaration.token.line && declaration.token.line <= func.endToken.line) break;
+        func = func.next;
+    }
+    let line = declaration.token.line + 1;
+    if (declaration.kind === "parameter") return `Parameter of \`${func?.name}\`, declared on line ${line}`;
+    if (func) return `Local variable of \`${func.name}\`, declared on line ${line}`;
+    return `Global variable, declared on line ${line}`;
+}
+
+/**
+ * Finds the word at a position in a document.
+ *
+ * @param document The document
+ * @param position The position
+ *
+ * @returns The word, or `undefined` if there is no word at the position.
+ */
+export function wordAt(document: TextDocument, position: Position): string | undefined {
+    let line = document.getText().split("\n")[position.line] ?? "";
+    return [...line.matchAll(/\w+/g)].find(match => match.index! <= position.character && position.character <= match.index! + match[0].length)?.[0];
+}
+
+/**
+ * Creates a hover for a keyword, built-in function, or function or variable declared in a program.
+ *
+ * @param document The document being hovered
+ * @param position The position of the cursor
+ *
+ * @returns The hover, or `null` if there is nothing to describe at the position.
+ */
+export function provideHover(document: TextDocument, position: Position): Hover | null {
+    let word = wordAt(document, position);
+    if (!word) return null;
+    let hover = (value: string): Hover => ({ contents: { kind: MarkupKind.Markdown, value: value } });
+
+    let builtinFunction = builtInFunctions.find(func => func.name === word);
+    if (builtinFunction) return hover(builtinFunction.description);
+
+    let keyword = tokenize(word)[0];
+    if (keyword?.type === "keyword" && keyword.value === word && word in keywordDescriptions) {
+        return hover(keywordDescriptions[word as keyof typeof keywordDescriptions]);
+    }
+
+    // Show the inferred type of variables, parameters and user-defined functions
+    let { program, declarations, types } = inferTypes(document.getText());
+    for (let declaration of declarations) {
+        let reference = [declaration.token, ...declaration.references].find(token => token.line === position.line && token.column <= position.character && position.character <= token.column + token.value.length);
+        if (!reference) continue;
+
+        let signature = "\n```\n" + describeType(declaration, types, reference) + "\n```\n";
+        if (declaration.kind === "function") return hover(signature + (findDocumentation(document.getText(), declaration) ?? ""));
+        return hover(signature + describeLocation(program, declaration));
+    }
+    return null;
+}
@@ -0,0 +1,406 @@
+import { builtInFunctions } from "./builtins";
+import tokenize, { Token } from "./lexer";
+import Parser, { ArithmeticNode, ASTNode, Declaration, FunDeclNode, IdListNode, Severity, TokenError, TranquilityType } from "./parser";
+
+type StatementListNode = ASTNode & { statement: ASTNode, next?: StatementListNode };
+type VarListNode = ASTNode & { idList: IdListNode, next?: VarListNode };
+type CallNode = ASTNode & { name: string, arguments?: ArithmeticNode & { next?: ArithmeticNode } };
+
+/**
+ * The types of the values held by variables and parameters at one point in a function. Variables whose type is not known
+ * yet are missing.
+ */
+type Environment = Map<Declaration, TranquilityType>;
+
+/**
+ * The most passes over the program before inference gives up on reaching a fixed point.
+ */
+let maxPasses = 20;
+
+/**
+ * Combines the types a value can have on two different paths through a program.
+ *
+ * @param a The first type
+ * @param b The second type
+ *
+ * @returns The type of the value after the paths meet.
+ */
+function join(a: TranquilityType, b: TranquilityType): TranquilityType {
+    return a === b ? a : "any";
+}
+
+/**
+ * Combines the environments at the end of two paths through a program. A variable assigned on only one path keeps the
+ * type from that path.
+ *
+ * @param a The first environment
+ * @param b The second environment
+ *
+ * @returns The environment after the paths meet.
+ */
+function joinEnvironments(a: Environment, b: Environment): Environment {
+    let joined = new Map(a);
+    b.forEach((type, declaration) => joined.set(declaration, joined.has(declaration) ? join(joined.get(declaration)!, type) : type));
+    return joined;
+}
+
+/**
+ * Returns whether or not two environments give every variable the same type.
+ *
+ * @param a The first environment
+ * @param b The second environment
+ *
+ * @returns whether or not the environments are the same.
+ */
+function sameEnvironments(a: Environment, b: Environment): boolean {
+    return a.size === b.size && [...a].every(([declaration, type]) => b.get(declaration) === type);
+}
+
+/**
+ * Returns whether or not a statement, or the last statement in a statement list, always returns from the function.
+ *
+ * @param node The statement or statement list node
+ *
+ * @returns whether or not execution never continues past the node.
+ */
+function alwaysReturns(node?: ASTNode): boolean {
+    if (node?.type === "statement list") {
+        let list = node as StatementListNode;
+        while (list.next) list = list.next;
+        return alwaysReturns(list.statement);
+    }
+    let statement = node as (ASTNode & { body?: ASTNode, elseBody?: ASTNode }) | undefined;
+    if (statement?.type === "if statement") return alwaysReturns(statement.body) && alwaysReturns(statement.elseBody);
+    return statement?.type === "return statement";
+}
+
+/**
+ * A `TypeInference` works out the types of the values Tranquility programs store in their variables. Types are learned
+ * from assignments and flow through the statements of each function: branches are joined where they meet and loops are
+ * repeated until their types settle. Arguments flow into the parameters of the called function and returned values flow
+ * back out of the call, so the whole program is analyzed repeatedly until no type changes.
+ *
+ * Values that cannot be used as they are, such as the result of a function that returns nothing, are reported in
+ * {@link errors}.
+ */
+export default class TypeInference {
+
+    /** The type of the value a variable or parameter holds at each token that refers to it. */
+    readonly references = new Map<Token, TranquilityType>();
+
+    /** Every type assigned to each variable, or passed or assigned to each parameter, joined together. */
+    readonly variables = new Map<Declaration, TranquilityType>();
+
+    /** The types returned by each user-defined function, joined together. Functions that return nothing return `"void"`. */
+    readonly returns = new Map<Declaration, TranquilityType>();
+
+    /** The problems found in the last pass over the program, by the token they highlight. */
+    private readonly problems = new Map<Token, TokenError>();
+
+    private readonly bindings = new Map<Token, Declaration>();
+    private readonly functions: FunDeclNode[] = [];
+    private readonly globals: Declaration[] = [];
+    private currentFunction: Declaration;
+    private changed = false;
+
+    /**
+     * Creates a new type inference.
+     *
+     * @param program The program node produced by the {@link Parser}
+     * @param declarations The declarations found by the same parser
+     */
+    constructor(program: ASTNode, declarations: Declaration[]) {
+        declarations.forEach(declaration => [declaration.token, ...declaration.references].forEach(token => this.bindings.set(token, declaration)));
+
+        let root = program as ASTNode & { varList?: VarListNode, funList?: FunDeclNode };
+        let varList = root.varList;
+        while (varList) {
+            let id: IdListNode | undefined = varList.idList;
+            while (id) {
+                if (this.bindings.has(id.token)) this.globals.push(this.bindings.get(id.token)!);
+                id = id.next;
+            }
+            varList = varList.next;
+        }
+
+        let func = root.funList;
+        while (func) {
+            if (func.token && this.bindings.has(func.token)) this.functions.push(func);
+            func = func.next;
+        }
+    }
+
+    /**
+     * Infers the types in the program.
+     *
+     * @returns This inference, for chaining.
+     */
+    infer(): this {
+        for (let pass = 0; pass < maxPasses; pass++) {
+            this.changed = false;
+            this.problems.clear();
+            this.functions.forEach(func => this.inferFunction(func));
+            if (!this.changed) break;
+        }
+        return this;
+    }
+
+    /**
+     * The values in the program that are used in a way their type does not allow.
+     */
+    get errors(): TokenError[] {
+        return [...this.problems.values()];
+    }
+
+    /**
+     * Returns the inferred type of a declaration: the type a variable or parameter holds, or the type a function returns.
+     *
+     * @param declaration The declaration
+     *
+     * @returns The type, or `"any"` if nothing is known about it.
+     */
+    typeOf(declaration: Declaration): TranquilityType {
+        return (declaration.kind === "function" ? this.returns : this.variables).get(declaration) ?? "any";
+    }
+
+    private inferFunction(node: FunDeclNode): void {
+        this.currentFunction = this.bindings.get(node.token!)!;
+
+        // Globals may have been assigned anywhere and parameters by any caller
+        let environment: Environment = new Map();
+        [...this.globals, ...this.currentFunction.parameters!].forEach(declaration => {
+            if (this.variables.has(declaration)) environment.set(declaration, this.variables.get(declaration)!);
+        });
+
+        let body = node.body as (ASTNode & { statementList?: StatementListNode }) | undefined;
+        this.inferStatementList(body?.statementList, environment);
+
+        // Reaching the end of the function returns without a value
+        if (!alwaysReturns(body?.statementList)) this.widen(this.returns, this.currentFunction, "void");
+    }
+
+    private inferStatementList(node: ASTNode | undefined, environment: Environment): Environment {
+        let list = node as StatementListNode | undefined;
+        while (list) {
+            environment = this.inferStatement(list.statement, environment);
+            list = list.next;
+        }
+        return environment;
+    }
+
+    private inferStatement(node: ASTNode, environment: Environment): Environment {
+        switch (node.type) {
+            case "assignment": {
+                let assignment = node as ASTNode & { expression1: ArithmeticNode, expression2: ArithmeticNode };
+                let type = this.inferValue(assignment.expression2, environment);
+                this.inferValue(assignment.expression1, environment);
+                let variable = this.variableAt(assignment.expression1);
+                if (!variable) return environment;
+
+                environment = new Map(environment);
+                if (!type) {
+                    environment.delete(variable);
+                    return environment;
+                }
+                this.references.set(assignment.expression1.operation, type);
+                this.widen(this.variables, variable, type);
+                return environment.set(variable, type);
+            }
+            case "expression statement": {
+                this.inferExpression((node as ASTNode & { expression: ArithmeticNode }).expression, environment);
+                return environment;
+            }
+            case "until statement": {
+                this.inferValue((node as ASTNode & { expression: ArithmeticNode }).expression, environment);
+                return environment;
+            }
+            case "if statement": {
+                let statement = node as ASTNode & { condition: ArithmeticNode, body?: ASTNode, elseBody?: ASTNode };
+                this.inferValue(statement.condition, environment);
+                let body = this.inferStatementList(statement.body, environment);
+                let elseBody = environment;
+                if (statement.elseBody?.type === "if statement") elseBody = this.inferStatement(statement.elseBody, environment);
+                else if (statement.elseBody) elseBody = this.inferStatementList(statement.elseBody, environment);
+                return joinEnvironments(body, elseBody);
+            }
+            case "loop": {
+                // Assignments at the end of the body reach its start on the next iteration
+                let loop = node as ASTNode & { body?: ASTNode };
+                let start = environment;
+                for (let pass = 0; pass < maxPasses; pass++) {
+                    let next = joinEnvironments(start, this.inferStatementList(loop.body, start));
+                    if (sameEnvironments(next, start)) break;
+                    start = next;
+                }
+                return start;
+            }
+            case "return statement": {
+                let statement = node as ASTNode & { expression?: ArithmeticNode };
+                this.widen(this.returns, this.currentFunction, statement.expression ? this.inferValue(statement.expression, environment) : "void");
+                return environment;
+            }
+        }
+        return environment;
+    }
+
+    /**
+     * Infers the type of the value of an expression.
+     *
+     * @param node The expression node
+     * @param environment The types of the variables when the expression is evaluated
+     *
+     * @returns The type, or `undefined` if nothing is known about the value yet.
+     */
+    private inferExpression(node: ArithmeticNode, environment: Environment): TranquilityType | undefined {
+        switch (node.type) {
+            case "integer":
+            case "character":
+                return "integer";
+            case "string":
+                return "string";
+            case "identifier": {
+                // Identifiers evaluate to the address of a variable, or to a function
+                let declaration = this.bindings.get(node.operation);
+                if (declaration?.kind === "function") return "function";
+                if (declaration && environment.has(declaration)) this.references.set(node.operation, environment.get(declaration)!);
+                return "address";
+            }
+            case "dereference": {
+                let pointer = this.inferValue(node.left as ArithmeticNode, environment);
+                if (pointer === "integer" || pointer === "boolean") {
+                    this.report(new TokenError(node.operation, `Cannot dereference a${pointer === "integer" ? "n" : ""} ${pointer}. Only addresses can be dereferenced.`, Severity.Warning));
+                }
+                let variable = this.variableAt(node.left);
+                if (variable) return environment.get(variable);
+
+                // Dereferencing a string gives one of its characters
+                if (!pointer) return undefined;
+                return pointer === "string" ? "integer" : "any";
+            }
+            case "negation":
+            case "bitwise negation":
+                this.inferValue(node.left as ArithmeticNode, environment);
+                return "integer";
+            case "expression": {
+                let expression = (node as ArithmeticNode & { expression?: ArithmeticNode }).expression;
+                return expression ? this.inferValue(expression, environment) : "any";
+            }
+            case "function call":
+                return this.inferFunctionCall(node, environment);
+            case "binary expression": {
+                let left = this.inferValue(node.left as ArithmeticNode, environment);
+                let right = this.inferValue(node.right as ArithmeticNode, environment);
+                if (node.operation.type === "comparison") return "boolean";
+                if (node.operation.type !== "plus" && node.operation.type !== "minus") return "integer";
+
+                // Adding to or subtracting from an address gives another address of the same kind
+                if (!left || !right) return undefined;
+                let pointers: TranquilityType[] = ["address", "string"];
+                if (pointers.includes(left) && right === "integer") return left;
+                if (node.operation.type === "plus" && left === "integer" && pointers.includes(right)) return right;
+                return left === "integer" && right === "integer" ? "integer" : "any";
+            }
+        }
+        return "any";
+    }
+
+    private inferFunctionCall(node: ArithmeticNode, environment: Environment): TranquilityType | undefined {
+        let call = node.left as CallNode;
+        let types: (TranquilityType | undefined)[] = [];
+        let arg: (ArithmeticNode & { next?: ArithmeticNode }) | undefined = call.arguments;
+        while (arg) {
+            types.push(this.inferValue(arg, environment));
+            arg = arg.next;
+        }
+
+        let declaration = this.bindings.get(node.operation);
+        if (declaration?.kind !== "function") return builtInFunctions.find(func => func.name === call.name)?.returnType ?? "any";
+        declaration.parameters!.forEach((parameter, i) => this.widen(this.variables, parameter, types[i]));
+        return this.returns.get(declaration);
+    }
+
+    /**
+     * Infers the type of an expression whose value is used, reporting values that do not exist.
+     *
+     * @param node The expression node
+     * @param environment The types of the variables when the expression is evaluated
+     *
+     * @returns The type, or `undefined` if nothing is known about the value yet.
+     */
+    private inferValue(node: ArithmeticNode, environment: Environment): TranquilityType | undefined {
+        let type = this.inferExpression(node, environment);
+        if (type !== "void") return type;
+
+        let name = (node.left as CallNode).name;
+        this.report(new TokenError(node.operation, `The function "${name}" does not return a value`));
+        return "any";
+    }
+
+    /**
+     * Reports a problem found in the current pass.
+     *
+     * @param error The problem
+     */
+    private report(error: TokenError): void {
+        if (!this.problems.has(error.token)) this.problems.set(error.token, error);
+    }
+
+    /**
+     * Returns the variable or parameter an expression names, if it is a bare identifier.
+     *
+     * @param node The expression node
+     *
+     * @returns The declaration of the variable, or `undefined` if the expression is anything else.
+     */
+    private variableAt(node: ASTNode): Declaration | undefined {
+        if (node.type !== "identifier") return undefined;
+        let declaration = this.bindings.get((node as ArithmeticNode).operation);
+        return declaration?.kind === "function" ? undefined : declaration;
+    }
+
+    /**
+     * Joins a type into the type recorded for a declaration, noting whether anything changed.
+     *
+     * @param types The recorded types
+     * @param declaration The declaration to update
+     * @param type The new type, if it is known
+     */
+    private widen(types: Map<Declaration, TranquilityType>, declaration: Declaration, type: TranquilityType | undefined): void {
+        if (!type) return;
+        let joined = types.has(declaration) ? join(types.get(declaration)!, type) : type;
+        if (types.get(declaration) === joined) return;
+        types.set(declaration, joined);
+        this.changed = true;
+    }
+}
+
+/**
+ * Parses a program and infers the types in it.
+ *
+ * @param code The source code to analyze
+ *
+ * @returns The declarations in the program and their inferred types.
+ */
+export function inferTypes(code: string): { program: ASTNode, declarations: Declaration[], types: TypeInference } {
+    let parser = new Parser(tokenize(code));
+    let program = parser.parse();
+    return { program: program, declarations: parser.declarations, types: new TypeInference(program, parser.declarations).infer() };
+}
+
+/**
+ * Describes the type of a declaration as it would be written in a signature.
+ *
+ * @param declaration The declaration to describe
+ * @param types The inferred types
+ * @param token A reference to a variable or parameter, to describe the type it holds at that point instead of every type it holds
+ *
+ * @returns The description, such as `var x: integer` or `fun f(a: string) -> integer`.
+ */
+export function describeType(declaration: Declaration, types: TypeInference, token?: Token): string {
+    if (declaration.kind === "function") {
+        let parameters = declaration.parameters!.map(parameter => `${parameter.name}: ${types.typeOf(parameter)}`);
+        return `fun ${declaration.name}(${parameters.join(", ")}) -> ${types.typeOf(declaration)}`;
+    }
+    let type = (token && types.references.get(token)) ?? types.typeOf(declaration);
+    return `${declaration.kind === "variable" ? "var" : "(parameter)"} ${declaration.name}: ${type}`;
+}
@@ -0,0 +1,774 @@
+import { HeadlessGui } from "../lib/gui";
+import { GuiSurface, Host, TerminalHost } from "../lib/host";
+import { memorySize } from "../lib/MTVM";
+import { builtInCodes, unescape } from "./compiler";
+import { ArithmeticNode, ASTNode, FunDeclNode, IdListNode, TokenError } from "./parser";
+
+type StatementListNode = ASTNode & { statement: ASTNode, next?: StatementListNode };
+type VarListNode = ASTNode & { idList: IdListNode, next?: VarListNode };
+type LiteralNode = ArithmeticNode & { value: string };
+type CallNode = ASTNode & { name: string, arguments?: ArithmeticNode & { next?: ArithmeticNode } };
+
+/**
+ * A user-defined function and the offset from the frame pointer of each of its parameters and local variables.
+ */
+type LoadedFunction = { node: FunDeclNode, parameters: number, locals: number, offsets: Map<string, number> };
+
+/**
+ * How a statement finished: normally, by leaving the innermost loop, or by returning from the function with its result on
+ * the stack.
+ */
+type Completion = undefined | "break" | "return";
+
+/** The number of statements {@link Interpreter.run} executes between yields to the event loop. */
+const yieldInterval = 1000;
+
+/**
+ * Thrown to unwind the interpreter when the program is stopped.
+ */
+let halt = new Error("The program was stopped");
+
+/**
+ * An `Interpreter` runs the abstract syntax tree produced by the {@link Parser} directly, without compiling it to a tape.
+ *
+ * It lays out memory exactly like the {@link Compiler} and MTVM do: globals and string literals at the bottom of memory
+ * in the order the compiler allocates them, then the heap used by `alloc`, and the stack growing down from the top of
+ * memory with the same frames and temporaries. A program should therefore behave the same, down to the contents of its
+ * memory, whether it is interpreted or compiled and run on MTVM, which makes the interpreter useful for checking the
+ * output of the compiler.
+ */
+export default class Interpreter {
+
+    /** The virtual memory. */
+    memory: number[];
+
+    /** The stack pointer. The stack grows downward from the top of memory. */
+    sp: number;
+
+    /** The frame pointer of the function being executed. */
+    fp: number;
+
+    /** The first unallocated address after the data segment. */
+    edata: number;
+
+    /**
+     * The address of each global variable.
+     */
+    readonly globals: Map<string, number> = new Map();
+
+    /**
+     * The user-defined functions, indexed by function number.
+     */
+    readonly functions: LoadedFunction[] = [];
+
+    /**
+     * The address of each string literal.
+     */
+    private strings: Map<ASTNode, number> = new Map();
+
+    /**
+     * The function being executed, or `undefined` outside of any function.
+     */
+    private frame: LoadedFunction | undefined;
+
+    /**
+     * The number of loops the statement being executed is nested in, within the function being executed.
+     */
+    private loops = 0;
+
+    private timers: Map<number, NodeJS.Timeout>;
+    private timernum: number;
+    private count = 0;
+    private stopped = false;
+
+    /** Serializes the main program and callbacks so that only one of them uses the stack at a time. */
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Creates a new interpreter and loads a program into it.
+     *
+     * @param program The `program` node returned by {@link Parser.parse}
+     * @param host The environment the built-in functions use for input, output and the GUI
+     */
+    constructor(public readonly program: ASTNode, public readonly host: Host = new TerminalHost(new HeadlessGui())) {
+        this.reset();
+    }
+
+    /**
+     * Restores memory and registers to their initial state and loads the program again. Anything loaded later with
+     * {@link load} is forgotten.
+     */
+    reset(): void {
+        this.timers?.forEach(timer => clearTimeout(timer));
+        this.memory = new Array(memorySize).fill(0);
+        this.sp = memorySize - 1;
+        this.fp = memorySize - 1;
+        this.edata = 1;
+        this.globals.clear();
+        this.functions.length = 0;
+        this.strings.clear();
+        this.frame = undefined;
+        this.loops = 0;
+        this.host.gui?.clear();
+        this.timers = new Map();
+        this.timernum = 0;
+        this.stopped = false;
+        this.load(this.program);
+    }
+
+    /**
+     * Adds the global variables and functions of a program. Variables that already exist keep their value, and functions
+     * that already exist are replaced but keep their function number.
+     *
+     * @param program The `program` node returned by {@link Parser.parse}
+     */
+    load(program: ASTNode): void {
+        let node = program as ASTNode & { varList?: VarListNode, funList?: FunDeclNode };
+
+        this.forEachVariable(node.varList, id => {
+            if (!this.globals.has(id.value)) this.globals.set(id.value, this.edata++);
+        });
+
+        let loaded: FunDeclNode[] = [];
+        let func = node.funList;
+        while (func) {
+            loaded.push(func);
+            func = func.next;
+        }
+
+        // Number the functions before allocating strings, and allocate them in the order the compiler does
+        loaded.forEach(func => {
+            let entry = this.loadFunction(func);
+            let index = this.functions.findIndex(other => other.node.name === func.name);
+            if (index === -1) this.functions.push(entry);
+            else this.functions[index] = entry;
+        });
+        loaded.forEach(func => this.allocateStatementList((func.body as ASTNode & { statementList?: StatementListNode } | undefined)?.statementList));
+    }
+
+    /**
+     * Runs the program by calling its `init` function.
+     */
+    run(): Promise<void> {
+        let entry = this.functions.findIndex(func => func.node.name === "init");
+        if (entry === -1) return Promise.reject("Error: A program must declare a function named \"init\"");
+
+        return this.schedule(async () => {
+            try {
+                await this.call(entry);
+            }
+            catch (error) {
+                if (error !== halt) throw error;
+            }
+            this.host.write("halt\n");
+        });
+    }
+
+    /**
+     * Stops the program and cancels its timers. A built-in that is waiting for input still finishes waiting, but nothing
+     * runs after it.
+     */
+    stop(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.stopped = true;
+    }
+
+    /**
+     * Lets functions run again after the program was stopped, keeping the contents of memory.
+     */
+    resume(): void {
+        this.stopped = false;
+    }
+
+    /**
+     * Calls a function and runs it to completion. Used for timers and GUI events. The call waits for the main program or any
+     * earlier callback to finish first.
+     *
+     * @param n The function number
+     * @param args The arguments to pass to the function
+     *
+     * @returns The value returned by the function, or 0 if the program was stopped.
+     */
+    invoke(n: number, args: number[] = []): Promise<number> {
+        return this.schedule(async () => {
+            let sp = this.sp;
+            let fp = this.fp;
+            let frame = this.frame;
+            let loops = this.loops;
+            try {
+                for (let i = args.length - 1; i >= 0; i--) this.push(args[i]);
+                await this.call(n);
+                return this.pop();
+            }
+            catch (error) {
+                if (error !== halt) throw error;
+                this.sp = sp;
+                this.fp = fp;
+                this.frame = frame;
+                this.loops = loops;
+                return 0;
+            }
+        });
+    }
+
+    /**
+     * Invokes a function for a timer or GUI event. Nothing waits for these calls, so errors are written to the host instead
+     * of being thrown.
+     *
+     * @param n The function number
+     * @param args The arguments to pass to the function
+     *
+     * @returns The value returned by the function, or 0 if it failed.
+     */
+    private callback(n: number, args: number[] = []): Promise<number> {
+        return this.invoke(n, args).catch(error => {
+            this.host.write(`\n${error}\n`);
+            return 0;
+        });
+    }
+
+    private schedule<T>(task: () => Promise<T>): Promise<T> {
+        let result = this.queue.then(task);
+        this.queue = result.catch(() => { });
+        return result;
+    }
+
+    private push(x: number): void {
+        this.memory[this.sp] = x;
+        this.sp--;
+    }
+
+    private pop(): number {
+        this.sp++;
+        return this.memory[this.sp];
+    }
+
+    private a2s(x: number): string {
+        let s = "";
+        while (this.memory[x] != 0) {
+            s += String.fromCharCode(this.memory[x]);
+            x++;
+        }
+        return s;
+    }
+
+    private s2a(s: string, a: number): void {
+        for (let i = 0; i < s.length; i++) this.memory[a + i] = s.charCodeAt(i);
+        this.memory[a + s.length] = 0;
+    }
+
+    /**
+     * Works out where the parameters and local variables of a function are stored. Locals are stored directly above the
+     * frame pointer, followed by the parameters in the order they are declared.
+     *
+     * @param node The function declaration node
+     *
+     * @returns The loaded function.
+     */
+    private loadFunction(node: FunDeclNode): LoadedFunction {
+        let offsets: Map<string, number> = new Map();
+        let locals = 0;
+        this.forEachVariable((node.body as ASTNode & { varList?: VarListNode } | undefined)?.varList, id => offsets.set(id.value, ++locals));
+
+        let parameters = 0;
+        let param = node.arguments;
+        while (param) {
+            offsets.set(param.value, locals + ++parameters);
+            param = param.next;
+        }
+        return { node: node, parameters: parameters, locals: locals, offsets: offsets };
+    }
+
+    /**
+     * Stores the string literals of a statement list in the data segment.
+     *
+     * @param node The statement list node
+     */
+    private allocateStatementList(node?: ASTNode): void {
+        let list = node as StatementListNode | undefined;
+        while (list) {
+            this.allocateStatement(list.statement);
+            list = list.next;
+        }
+    }
+
+    /**
+     * Stores the string literals of a statement in the data segment, visiting its parts in the order the compiler does.
+     *
+     * @param node The statement node
+     */
+    private allocateStatement(node: ASTNode): void {
+        let statement = node as ASTNode & { expression?: ArithmeticNode, expression1?: ArithmeticNode, expression2?: ArithmeticNode, condition?: ArithmeticNode, body?: ASTNode, elseBody?: ASTNode };
+        switch (node.type) {
+            case "assignment":
+                this.allocateExpression(statement.expression1!);
+                this.allocateExpression(statement.expression2!);
+                break;
+            case "if statement":
+                if (statement.elseBody?.type === "if statement") this.allocateStatement(statement.elseBody);
+                else this.allocateStatementList(statement.elseBody);
+                this.allocateExpression(statement.condition!);
+                this.allocateStatementList(statement.body);
+                break;
+            case "loop":
+                this.allocateStatementList(statement.body);
+                break;
+            default:
+                if (statement.expression) this.allocateExpression(statement.expression);
+        }
+    }
+
+    /**
+     * Stores the string literals of an expression in the data segment, visiting its parts in the order the compiler does.
+     *
+     * @param node The expression node
+     */
+    private allocateExpression(node: ArithmeticNode): void {
+        switch (node.type) {
+            case "binary expression":
+                this.allocateExpression(node.left as ArithmeticNode);
+                this.allocateExpression(node.right as ArithmeticNode);
+                break;
+            case "negation":
+            case "bitwise negation":
+            case "dereference":
+                this.allocateExpression(node.left as ArithmeticNode);
+                break;
+            case "expression": {
+                let expression = (node as ArithmeticNode & { expression?: ArithmeticNode }).expression;
+                if (expression) this.allocateExpression(expression);
+                break;
+            }
+            case "function call":
+                this.argumentsOf(node).reverse().forEach(arg => this.allocateExpression(arg));
+                break;
+            case "string": {
+                let text = unescape((node as LiteralNode).value.slice(1, -1));
+                this.strings.set(node, this.edata);
+                this.s2a(text, this.edata);
+                this.edata += text.length + 1;
+                break;
+            }
+        }
+    }
+
+    /**
+     * Executes a statement list.
+     *
+     * @param node The statement list node
+     *
+     * @returns How the statement list finished.
+     */
+    private async executeStatementList(node?: ASTNode): Promise<Completion> {
+        let list = node as StatementListNode | undefined;
+        while (list) {
+            let completion = await this.executeStatement(list.statement);
+            if (completion) return completion;
+            list = list.next;
+        }
+        return undefined;
+    }
+
+    /**
+     * Executes a statement.
+     *
+     * @param node The statement node
+     *
+     * @returns How the statement finished.
+     */
+    private async executeStatement(node: ASTNode): Promise<Completion> {
+        await this.tick();
+        switch (node.type) {
+            case "assignment": {
+                let assignment = node as ASTNode & { expression1: ArithmeticNode, expression2: ArithmeticNode };
+                await this.evaluate(assignment.expression1);
+                await this.evaluate(assignment.expression2);
+                let x = this.pop();
+                this.memory[this.pop()] = x;
+                return undefined;
+            }
+            case "expression statement":
+                await this.evaluate((node as ASTNode & { expression: ArithmeticNode }).expression);
+                this.pop();
+                return undefined;
+            case "if statement": {
+                let statement = node as ASTNode & { condition: ArithmeticNode, body: ASTNode, elseBody?: ASTNode };
+                await this.evaluate(statement.condition);
+                if (this.pop() != 0) return this.executeStatementList(statement.body);
+                if (statement.elseBody?.type === "if statement") return this.executeStatement(statement.elseBody);
+                return this.executeStatementList(statement.elseBody);
+            }
+            case "loop": {
+                let loop = node as ASTNode & { body?: ASTNode };
+                this.loops++;
+                try {
+                    while (true) {
+                        let completion = await this.executeStatementList(loop.body);
+                        if (completion === "return") return completion;
+                        if (completion === "break") return undefined;
+                        await this.tick();
+                    }
+                }
+                finally {
+                    this.loops--;
+                }
+            }
+            case "until statement":
+                await this.evaluate((node as ASTNode & { expression: ArithmeticNode }).expression);
+                if (this.pop() == 0) return undefined;
+
+                // Like MTVM, an `until` outside of a loop leaves the function with whatever is on the stack as its result
+                return this.loops ? "break" : "return";
+            case "return statement": {
+                let expression = (node as ASTNode & { expression?: ArithmeticNode }).expression;
+                if (expression) await this.evaluate(expression);
+                else this.push(0);
+                return "return";
+            }
+        }
+        throw `Error: Unknown statement type "${node.type}"`;
+    }
+
+    /**
+     * Counts an executed statement, periodically yielding to the event loop so that the program can be stopped.
+     */
+    private async tick(): Promise<void> {
+        if (++this.count % yieldInterval === 0) await new Promise(resolve => setImmediate(resolve));
+        if (this.stopped) throw halt;
+    }
+
+    /**
+     * Evaluates an expression and pushes its value. Intermediate values are kept on the stack, exactly like the compiled
+     * expression would keep them.
+     *
+     * @param node The expression node
+     */
+    private async evaluate(node: ArithmeticNode): Promise<void> {
+        switch (node.type) {
+            case "binary expression": {
+                await this.evaluate(node.left as ArithmeticNode);
+                await this.evaluate(node.right as ArithmeticNode);
+                let y = this.pop();
+                let x = this.pop();
+                this.push(this.operate(node, x, y));
+                return;
+            }
+            case "negation": {
+                this.push(0);
+                await this.evaluate(node.left as ArithmeticNode);
+                let y = this.pop();
+                let x = this.pop();
+                this.push(x - y);
+                return;
+            }
+            case "bitwise negation":
+                await this.evaluate(node.left as ArithmeticNode);
+                this.push(~this.pop());
+                return;
+            case "dereference":
+                await this.evaluate(node.left as ArithmeticNode);
+                this.push(this.memory[this.pop()]);
+                return;
+            case "expression": {
+                let expression = (node as ArithmeticNode & { expression?: ArithmeticNode }).expression;
+                if (!expression) throw new TokenError(node.operation, "Expected an expression inside parentheses");
+                return this.evaluate(expression);
+            }
+            case "function call":
+                return this.evaluateFunctionCall(node);
+            case "integer":
+                this.push(parseInt((node as LiteralNode).value, 10));
+                return;
+            case "character":
+                this.push(unescape((node as LiteralNode).value.slice(1, -1)).charCodeAt(0));
+                return;
+            case "string":
+                this.push(this.strings.get(node)!);
+                return;
+            case "identifier":
+                this.push(this.evaluateIdentifier(node as LiteralNode));
+                return;
+        }
+        throw new TokenError(node.operation, `Unknown expression type "${node.type}"`);
+    }
+
+    /**
+     * Applies a binary operator.
+     *
+     * @param node The binary expression node
+     * @param x The value of the left operand
+     * @param y The value of the right operand
+     *
+     * @returns The result.
+     */
+    private operate(node: ArithmeticNode, x: number, y: number): number {
+        switch (node.operation.value) {
+            case "+": return x + y;
+            case "-": return x - y;
+            case "*": return x * y;
+            case "/": return Math.floor(x / y);
+            case "%": return x % y;
+            case "&": return x & y;
+            case "|": return x | y;
+            case "^": return x ^ y;
+            case "==": return x == y ? 1 : 0;
+            case "!=": return x != y ? 1 : 0;
+            case "<": return x < y ? 1 : 0;
+            case "<=": return x <= y ? 1 : 0;
+            case ">": return x > y ? 1 : 0;
+            case ">=": return x >= y ? 1 : 0;
+            case "<<": return x << y;
+            case ">>": return x >> y;
+        }
+        throw new TokenError(node.operation, `Unknown operator "${node.operation.value}"`);
+    }
+
+    /**
+     * Evaluates a function call. Arguments are pushed from last to first so that the first argument is on top of the stack.
+     *
+     * @param node The function call node
+     */
+    private async evaluateFunctionCall(node: ArithmeticNode): Promise<void> {
+        let call = node.left as CallNode;
+
+        let n = this.functions.findIndex(func => func.node.name === call.name);
+        if (n === -1 && call.name in builtInCodes) n = builtInCodes[call.name];
+        if (n === -1) throw new TokenError(node.operation, `Function "${call.name}" is undefined`);
+
+        for (let arg of this.argumentsOf(node).reverse()) await this.evaluate(arg);
+        await this.call(n);
+    }
+
+    /**
+     * Evaluates an identifier. Variables evaluate to their address and functions evaluate to their function number.
+     *
+     * @param node The identifier node
+     *
+     * @returns The value of the identifier.
+     */
+    private evaluateIdentifier(node: LiteralNode): number {
+        let local = this.frame?.offsets.get(node.value);
+        if (local !== undefined) return this.fp + local;
+
+        let global = this.globals.get(node.value);
+        if (global !== undefined) return global;
+
+        let index = this.functions.findIndex(func => func.node.name === node.value);
+        if (index !== -1) return index;
+
+        throw new TokenError(node.operation, `Variable "${node.value}" is undefined`);
+    }
+
+    /**
+     * Calls a built-in function, or runs a user function, with its arguments on the stack. The value returned by the
+     * function is left on the stack in place of the arguments.
+     *
+     * @param n The function number. Negative numbers are built-in functions.
+     */
+    private async call(n: number): Promise<void> {
+        if (n < 0) return this.callBuiltIn(n);
+
+        let func = this.functions[n];
+        if (!func) throw new Error(`Invalid function call ${n}`);
+
+        // Set up the stack frame the same way as MTVM
+        for (let i = 0; i < func.locals; i++) this.push(0);
+        this.memory[this.sp] = this.fp;
+        this.fp = this.sp;
+        this.sp--;
+
+        let frame = this.frame;
+        let loops = this.loops;
+        this.frame = func;
+        this.loops = 0;
+        let completion = await this.executeStatementList((func.node.body as ASTNode & { statementList?: StatementListNode } | undefined)?.statementList);
+        this.frame = frame;
+        this.loops = loops;
+
+        // Functions that reach the end of their body return 0
+        if (completion !== "return") this.push(0);
+        let r = this.pop();
+        this.sp = this.fp;
+        this.fp = this.memory[this.sp];
+        this.sp += func.parameters + func.locals;
+        this.push(r);
+    }
+
+    /**
+     * Calls a built-in function.
+     *
+     * @param n The function number of the built-in
+     */
+    private async callBuiltIn(n: number): Promise<void> {
+        let x: number, a: number, p: number, s: string;
+        switch (n) {
+            case builtInCodes.iprint:
+                x = this.pop();
+                this.host.write(String(x));
+                this.push(0);
+                break;
+            case builtInCodes.sprint:
+                x = this.pop();
+                this.host.write(this.a2s(x));
+                this.push(0);
+                break;
+            case builtInCodes.iread:
+                p = this.pop();
+                this.push(parseInt(await this.host.readLine(p == -1 ? "Integer input:" : this.a2s(p)), 10));
+                break;
+            case builtInCodes.sread:
+                a = this.pop();
+                p = this.pop();
+                this.s2a(await this.host.readLine(p == -1 ? "String input:" : this.a2s(p)), a);
+                this.push(0);
+                break;
+            case builtInCodes.nl:
+                this.host.write("\n");
+                this.push(0);
+                break;
+            case builtInCodes.random:
+                x = this.pop();
+                this.push(Math.floor(Math.random() * x));
+                break;
+            case builtInCodes.timer: {
+                let to = this.pop();
+                let f = this.pop();
+                let id = this.timernum++;
+                this.timers.set(id, setTimeout(() => {
+                    this.timers.delete(id);
+                    this.callback(f);
+                }, to));
+                this.push(id);
+                break;
+            }
+            case builtInCodes.stoptimer:
+                x = this.pop();
+                clearTimeout(this.timers.get(x));
+                this.timers.delete(x);
+                this.push(0);
+                break;
+            case builtInCodes.alloc:
+                x = this.pop();
+                this.push(this.edata);
+                this.edata += x;
+                break;
+            case builtInCodes.free:
+                this.pop();
+                this.push(0);
+                break;
+            case builtInCodes.i2s:
+                a = this.pop();
+                x = this.pop();
+                s = x.toString(10);
+                this.s2a(s, a);
+                this.push(s.length);
+                break;
+            case builtInCodes.makeimg:
+                this.push(this.gui().makeimg());
+                break;
+            case builtInCodes.setimg:
+                x = this.pop();
+                s = this.a2s(this.pop());
+                this.gui().setimg(x, s);
+                this.push(0);
+                break;
+            case builtInCodes.button: {
+                s = this.a2s(this.pop());
+                let f = this.pop();
+                this.push(this.gui().button(s, () => this.callback(f)));
+                break;
+            }
+            case builtInCodes.html:
+                s = this.a2s(this.pop());
+                this.gui().html(s);
+                this.push(0);
+                break;
+            case builtInCodes.makelabel:
+                s = this.a2s(this.pop());
+                this.push(this.gui().makelabel(s));
+                break;
+            case builtInCodes.setlabel:
+                x = this.pop();
+                s = this.a2s(this.pop());
+                this.gui().setlabel(x, s);
+                this.push(0);
+                break;
+            case builtInCodes.maketable: {
+                let r = this.pop();
+                let c = this.pop();
+                let f = this.pop();
+                this.push(this.gui().maketable(r, c, (row, column) => this.callback(f, [row, column])));
+                break;
+            }
+            case builtInCodes.setcell: {
+                let t = this.pop();
+                let r = this.pop();
+                let c = this.pop();
+                s = this.a2s(this.pop());
+                this.gui().setcell(t, r, c, s);
+                this.push(0);
+                break;
+            }
+            case builtInCodes.setcellcolor: {
+                let t = this.pop();
+                let r = this.pop();
+                let c = this.pop();
+                s = this.a2s(this.pop());
+                this.gui().setcellcolor(t, r, c, s);
+                this.push(0);
+                break;
+            }
+            case builtInCodes.buttonlabel:
+                x = this.pop();
+                s = this.a2s(this.pop());
+                this.gui().buttonlabel(x, s);
+                this.push(0);
+                break;
+            default:
+                throw new Error(`Invalid function call ${n}`);
+        }
+    }
+
+    /**
+     * Returns the surface GUI built-ins draw on.
+     */
+    private gui(): GuiSurface {
+        if (!this.host.gui) throw new Error("This program uses GUI functions, but it is not running on a host with a GUI");
+        return this.host.gui;
+    }
+
+    /**
+     * Returns the arguments of a function call in the order they are written.
+     *
+     * @param node The function call node
+     *
+     * @returns The argument expressions.
+     */
+    private argumentsOf(node: ArithmeticNode): ArithmeticNode[] {
+        let args: ArithmeticNode[] = [];
+        let arg = (node.left as CallNode).arguments;
+        while (arg) {
+            args.push(arg);
+            arg = arg.next;
+        }
+        return args;
+    }
+
+    /**
+     * Calls `callback` with each identifier in a variable list.
+     *
+     * @param node The variable list node
+     * @param callback The function to call
+     */
+    private forEachVariable(node: VarListNode | undefined, callback: (id: IdListNode) => void): void {
+        while (node) {
+            let id: IdListNode | undefined = node.idList;
+            while (id) {
+                callback(id);
+                id = id.next;
+            }
+            node = node.next;
+        }
+    }
+}
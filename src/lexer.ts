@@ -2,7 +2,7 @@ export let tokenTypes = {
     "plus": /^\+/,
     "bitwise comparison": /^[\&\|]/,
     "bitwise shift": /^(<<|>>)/,
-    "bitwise not": /\~/,
+    "bitwise not": /^\~/,
     "character": /^'([^']|\\')'/,
     "colon": /^:/,
     "comma": /^,/,
@@ -31,14 +31,51 @@ let tokenTypeAmount = tokenTypeNames.length;
 
 export interface Token { type: keyof typeof tokenTypes, value: string, line: number, column: number, hasDiagnostic?: boolean };
 
+/**
+ * A position in source code. Lines and characters are counted from 0.
+ */
+export interface Position { line: number, character: number };
+
+/**
+ * A range of source code, from `start` up to but not including `end`.
+ */
+export interface Range { start: Position, end: Position };
+
+/**
+ * Returns the range a token covers in its source code.
+ * 
+ * @param token The token
+ * 
+ * @returns The range of the token.
+ */
+export function tokenRange(token: Token): Range {
+    return { start: { line: token.line, character: token.column }, end: { line: token.line, character: token.column + token.value.length } };
+}
+
+/**
+ * Returns whether or not a position is inside a range. Both ends of the range are included.
+ * 
+ * @param range The range
+ * @param position The position
+ * 
+ * @returns whether or not the range contains the position.
+ */
+export function rangeContains(range: Range, position: Position): boolean {
+    let afterStart = position.line > range.start.line || (position.line === range.start.line && position.character >= range.start.character);
+    let beforeEnd = position.line < range.end.line || (position.line === range.end.line && position.character <= range.end.character);
+    return afterStart && beforeEnd;
+}
+
 /**
  * Performs lexical analysis on a string of Tranquility code.
  * 
  * @param code The source code to tokenize
+ * @param comments If given, the comments in the source code are added to this list. Comments are never part of the
+ * returned tokens.
  * 
  * @returns A list of tokens generated from the source code
  */
-export default function tokenize(code: string): Token[] {
+export default function tokenize(code: string, comments?: Token[]): Token[] {
     let tokens: Token[] = [];
     let remainingCode = code;
     let currentIndex = 0;
@@ -51,7 +88,8 @@ export default function tokenize(code: string): Token[] {
             let match = tokenTypeRegex.exec(remainingCode);
             if (match) {
                 let matchedBit = match[0];
-                if (tokenTypeName !== "whitespace" && tokenTypeName !== "comment") tokens.push({ type: tokenTypeName, value: matchedBit, line: lineNumber, column: currentIndex });
+                if (tokenTypeName === "comment") comments?.push({ type: tokenTypeName, value: matchedBit, line: lineNumber, column: currentIndex });
+                else if (tokenTypeName !== "whitespace") tokens.push({ type: tokenTypeName, value: matchedBit, line: lineNumber, column: currentIndex });
                 remainingCode = remainingCode.substring(matchedBit.length);
                 currentIndex += matchedBit.length;
                 let newlineCount = (matchedBit.match(/\n/g) || []).length;
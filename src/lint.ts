@@ -0,0 +1,208 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { findProblems, Problem } from "./diagnostics";
+import { Severity } from "./parser";
+
+/**
+ * The problems found in one file.
+ */
+type FileReport = { file: string, problems: Problem[] };
+
+let usage = `Usage: tranq-lint [--format text|json|sarif] <file or glob>...
+
+Checks Tranquility programs for the same problems the editor reports. Exits with 1 if any file has errors.`;
+
+/**
+ * The names of the severities, as printed in reports.
+ */
+let severityNames: { [key in Severity]: string } = {
+    [Severity.Error]: "error",
+    [Severity.Warning]: "warning",
+    [Severity.Information]: "info",
+    [Severity.Hint]: "hint"
+};
+
+/**
+ * Converts a glob pattern to a regular expression. Supports `**`, `*`, `?` and `{a,b}`.
+ *
+ * @param glob The glob pattern, with `/` as the separator
+ *
+ * @returns The regular expression that matches the whole path.
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = glob
+        .replace(/[.+^$()|[\]\\]/g, "\\$&")
+        .replace(/\*\*\/|\*\*|\*|\?|\{([^}]*)\}/g, (match, options?: string) => {
+            if (match === "**/") return "(?:.*/)?";
+            if (match === "**") return ".*";
+            if (match === "*") return "[^/]*";
+            if (match === "?") return "[^/]";
+            return `(?:${options!.split(",").join("|")})`;
+        });
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Lists the files in a directory and its subdirectories, skipping hidden directories and `node_modules`.
+ *
+ * @param directory The path of the directory
+ *
+ * @returns The paths of the files.
+ */
+function walk(directory: string): string[] {
+    return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+        let file = path.join(directory, entry.name);
+        if (entry.isDirectory()) return entry.name.startsWith(".") || entry.name === "node_modules" ? [] : walk(file);
+        return [file];
+    });
+}
+
+/**
+ * Finds the files an argument refers to. Arguments without glob characters are returned as they are, and directories
+ * are searched for `.t` and `.tranq` files.
+ *
+ * @param argument The file, directory or glob pattern
+ *
+ * @returns The paths of the files.
+ */
+function expandArgument(argument: string): string[] {
+    let pattern = argument.split(path.sep).join("/");
+    if (!/[*?{]/.test(pattern)) {
+        if (fs.existsSync(argument) && fs.statSync(argument).isDirectory()) return walk(argument).filter(file => /\.(t|tranq)$/i.test(file));
+        return [argument];
+    }
+
+    // Only search below the part of the pattern without glob characters
+    let segments = pattern.split("/");
+    let firstGlob = segments.findIndex(segment => /[*?{]/.test(segment));
+    let base = segments.slice(0, firstGlob).join("/") || ".";
+    let regExp = globToRegExp(pattern.replace(/^\.\//, ""));
+    if (!fs.existsSync(base)) return [];
+    return walk(base).filter(file => regExp.test(file.split(path.sep).join("/").replace(/^\.\//, ""))).sort();
+}
+
+/**
+ * Formats reports as one line per problem, like `file:line:col: severity: message`.
+ *
+ * @param reports The reports of each file
+ *
+ * @returns The text.
+ */
+function formatText(reports: FileReport[]): string {
+    return reports.flatMap(report => report.problems.map(problem => {
+        return `${report.file}:${problem.range.start.line + 1}:${problem.range.start.character + 1}: ${severityNames[problem.severity]}: ${problem.message}`;
+    })).join("\n");
+}
+
+/**
+ * Formats reports as a JSON array of problems.
+ *
+ * @param reports The reports of each file
+ *
+ * @returns The JSON text.
+ */
+function formatJson(reports: FileReport[]): string {
+    return JSON.stringify(reports.flatMap(report => report.problems.map(problem => ({
+        file: report.file,
+        line: problem.range.start.line + 1,
+        column: problem.range.start.character + 1,
+        endLine: problem.range.end.line + 1,
+        endColumn: problem.range.end.character + 1,
+        severity: severityNames[problem.severity],
+        message: problem.message
+    }))), null, 4);
+}
+
+/**
+ * Formats reports as a SARIF 2.1.0 log, which code scanning tools can read.
+ *
+ * @param reports The reports of each file
+ *
+ * @returns The JSON text of the log.
+ */
+function formatSarif(reports: FileReport[]): string {
+    let levels: { [key in Severity]: string } = {
+        [Severity.Error]: "error",
+        [Severity.Warning]: "warning",
+        [Severity.Information]: "note",
+        [Severity.Hint]: "note"
+    };
+    let results = reports.flatMap(report => report.problems.map(problem => ({
+        level: levels[problem.severity],
+        message: { text: problem.message },
+        locations: [{
+            physicalLocation: {
+                artifactLocation: { uri: path.isAbsolute(report.file) ? pathToFileURL(report.file).toString() : report.file.split(path.sep).join("/") },
+                region: {
+                    startLine: problem.range.start.line + 1,
+                    startColumn: problem.range.start.character + 1,
+                    endLine: problem.range.end.line + 1,
+                    endColumn: problem.range.end.character + 1
+                }
+            }
+        }]
+    })));
+    return JSON.stringify({
+        $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+        version: "2.1.0",
+        runs: [{ tool: { driver: { name: "tranq-lint", informationUri: "https://github.com/neph-iap/language-tranquility" } }, results: results }]
+    }, null, 4);
+}
+
+/**
+ * Runs the linter.
+ *
+ * @param args The command line arguments, without the Node executable and script
+ *
+ * @returns The exit code: 0 if there are no errors, 1 if there are, and 2 if the arguments are invalid.
+ */
+function main(args: string[]): number {
+    let format = "text";
+    let patterns: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        let arg = args[i];
+        if (arg === "-h" || arg === "--help") {
+            console.log(usage);
+            return 0;
+        }
+        if (arg === "-f" || arg === "--format") format = args[++i];
+        else if (arg.startsWith("--format=")) format = arg.substring("--format=".length);
+        else patterns.push(arg);
+    }
+    if (!["text", "json", "sarif"].includes(format)) {
+        console.error(`Unknown format "${format}"\n\n${usage}`);
+        return 2;
+    }
+    if (!patterns.length) {
+        console.error(usage);
+        return 2;
+    }
+
+    let files = [...new Set(patterns.flatMap(expandArgument))];
+    if (!files.length) {
+        console.error(`No files match ${patterns.join(" ")}`);
+        return 2;
+    }
+
+    let reports: FileReport[] = [];
+    for (let file of files) {
+        let code: string;
+        try {
+            code = fs.readFileSync(file, "utf8");
+        }
+        catch (error) {
+            console.error(`Cannot read ${file}: ${(error as Error).message}`);
+            return 2;
+        }
+        let problems = findProblems(code).sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+        reports.push({ file: file, problems: problems });
+    }
+
+    let output = format === "json" ? formatJson(reports) : format === "sarif" ? formatSarif(reports) : formatText(reports);
+    if (output) console.log(output);
+    return reports.some(report => report.problems.some(problem => problem.severity === Severity.Error)) ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,143 @@
+import { Location, LSPErrorCodes, Position, Range, ResponseError, WorkspaceEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { builtInFunctions } from "./builtins";
+import { wordAt } from "./hover";
+import tokenize, { rangeContains, Token, tokenRange, tokenTypes } from "./lexer";
+import Parser, { Declaration } from "./parser";
+
+/**
+ * Parses a document and finds the variable, parameter or function declaration that the identifier at a position refers to.
+ * The identifier may be the declaration itself or any reference to it.
+ *
+ * @param document The document to search
+ * @param position The position of the identifier
+ *
+ * @returns The declaration, or `undefined` if there is no user-declared identifier at the position.
+ */
+export function findDeclaration(document: TextDocument, position: Position): Declaration | undefined {
+    let parser = new Parser(tokenize(document.getText()));
+    parser.parse();
+    return parser.declarations.find(declaration => [declaration.token, ...declaration.references].some(token => rangeContains(tokenRange(token), position)));
+}
+
+/**
+ * Describes which identifier tokens each declaration in some source code binds. Renaming an identifier does not change
+ * the number or order of tokens, so comparing the description before and after a rename shows whether the new name
+ * captured or released any references. Errors are left out, so that renaming can fix errors such as duplicate
+ * identifiers.
+ *
+ * @param code The source code to describe
+ *
+ * @returns A string that is the same for any two programs with the same bindings.
+ */
+function describeBindings(code: string): string {
+    let tokens = tokenize(code);
+    let parser = new Parser([...tokens]);
+    parser.parse();
+    let bindings = parser.declarations.map(declaration => [declaration.token, ...declaration.references].map(token => tokens.indexOf(token)).join(","));
+    return bindings.sort().join(";");
+}
+
+/**
+ * Checks that an identifier can be renamed to a new name and returns the tokens to rename.
+ *
+ * @param document The document containing the identifier
+ * @param position The position of the identifier
+ * @param newName The new name
+ *
+ * @returns Every token that is bound to the same declaration as the identifier, including the declaration itself.
+ */
+function findRenameTokens(document: TextDocument, position: Position, newName: string): Token[] {
+    let declaration = findDeclaration(document, position);
+    if (!declaration) throw renameError("Only variables, parameters and user-defined functions can be renamed");
+
+    let identifier = tokenTypes.identifier.exec(newName);
+    if (identifier?.[0] !== newName) throw renameError(`"${newName}" is not a valid identifier`);
+    if (tokenTypes.keyword.exec(newName)?.[0] === newName) throw renameError(`"${newName}" is a keyword`);
+    if (builtInFunctions.some(func => func.name === newName)) throw renameError(`"${newName}" is the name of a built-in function`);
+
+    // Rename the source and make sure every identifier still refers to the same declaration
+    let tokens = [declaration.token, ...declaration.references];
+    let lines = document.getText().split("\n");
+    [...tokens].sort((a, b) => b.column - a.column).forEach(token => {
+        lines[token.line] = lines[token.line].substring(0, token.column) + newName + lines[token.line].substring(token.column + token.value.length);
+    });
+    if (describeBindings(lines.join("\n")) !== describeBindings(document.getText())) {
+        throw renameError(`Renaming "${declaration.name}" to "${newName}" would conflict with another declaration in scope`);
+    }
+
+    return tokens;
+}
+
+/**
+ * Creates the error a rename request fails with. Editors show its message to the user.
+ *
+ * @param message The reason the rename is not possible
+ *
+ * @returns The error.
+ */
+function renameError(message: string): ResponseError<void> {
+    return new ResponseError(LSPErrorCodes.RequestFailed, message);
+}
+
+/**
+ * Finds the declaration of the identifier at a position.
+ *
+ * @param document The document containing the identifier
+ * @param position The position of the identifier
+ *
+ * @returns The location of the declaration, or `null` if there is no user-declared identifier at the position.
+ */
+export function provideDefinition(document: TextDocument, position: Position): Location | null {
+    let declaration = findDeclaration(document, position);
+    if (!declaration) return null;
+    return Location.create(document.uri, tokenRange(declaration.token));
+}
+
+/**
+ * Finds every reference to the identifier at a position.
+ *
+ * @param document The document containing the identifier
+ * @param position The position of the identifier
+ * @param includeDeclaration Whether or not to include the declaration itself
+ *
+ * @returns The locations of the references, or `null` if there is no user-declared identifier at the position.
+ */
+export function provideReferences(document: TextDocument, position: Position, includeDeclaration: boolean): Location[] | null {
+    let declaration = findDeclaration(document, position);
+    if (!declaration) return null;
+    let tokens = includeDeclaration ? [declaration.token, ...declaration.references] : declaration.references;
+    return tokens.map(token => Location.create(document.uri, tokenRange(token)));
+}
+
+/**
+ * Checks that the identifier at a position can be renamed.
+ *
+ * @param document The document containing the identifier
+ * @param position The position of the identifier
+ *
+ * @returns The range of the identifier and its current name.
+ */
+export function prepareRename(document: TextDocument, position: Position): { range: Range, placeholder: string } {
+    let declaration = findDeclaration(document, position);
+    if (!declaration) {
+        if (builtInFunctions.some(func => func.name === wordAt(document, position))) throw renameError("Built-in functions cannot be renamed");
+        throw renameError("Only variables, parameters and user-defined functions can be renamed");
+    }
+    let token = [declaration.token, ...declaration.references].find(token => rangeContains(tokenRange(token), position))!;
+    return { range: tokenRange(token), placeholder: declaration.name };
+}
+
+/**
+ * Renames the identifier at a position, along with its declaration and every other reference to it.
+ *
+ * @param document The document containing the identifier
+ * @param position The position of the identifier
+ * @param newName The new name
+ *
+ * @returns The edit that renames the identifier.
+ */
+export function provideRenameEdits(document: TextDocument, position: Position, newName: string): WorkspaceEdit {
+    let edits = findRenameTokens(document, position, newName).map(token => ({ range: tokenRange(token), newText: newName }));
+    return { changes: { [document.uri]: edits } };
+}
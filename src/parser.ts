@@ -1,22 +1,20 @@
-import * as vscode from "vscode";
 import { builtInFunctions } from "./builtins";
-import { tokenNonError } from "./diagnostics";
 import { Token, tokenTypes } from "./lexer";
 
 /**
  * A node in an abstract syntax tree (or the tree itself).
  */
-interface ASTNode {
+export interface ASTNode {
     type: string;
 }
 
-type ArithmeticNode = ASTNode & { left: ASTNode, operation: Token, right?: ASTNode, returnType: TranquilityType };
+export type ArithmeticNode = ASTNode & { left: ASTNode, operation: Token, right?: ASTNode, returnType: TranquilityType };
 type ExpressionListNode = ASTNode & { next?: ASTNode };
 type ExpressionNode = ASTNode & { resultType?: TranquilityType };
-type IdListNode = ASTNode & { value: string, token: Token, next?: IdListNode };
-type FunDeclNode = ASTNode & { name?: string, body?: ASTNode, arguments?: IdListNode };
+export type IdListNode = ASTNode & { value: string, token: Token, next?: IdListNode };
+export type FunDeclNode = ASTNode & { name?: string, token?: Token, startToken?: Token, parametersEndToken?: Token, endToken?: Token, body?: ASTNode, arguments?: IdListNode, next?: FunDeclNode };
 
-export type TranquilityType = "any" | "string" | "integer" | "boolean" | "address" | "function";
+export type TranquilityType = "any" | "string" | "integer" | "boolean" | "address" | "function" | "void";
 
 function operandsMatch(a: TranquilityType, b: TranquilityType): boolean {
     if (a === b) return true;
@@ -28,11 +26,34 @@ function operandsMatch(a: TranquilityType, b: TranquilityType): boolean {
 
 type ScopeType = "function" | "loop" | "if" | "global" | "else";
 
+/**
+ * A variable, parameter or function declared in a program, along with every token that refers to it.
+ */
+export interface Declaration {
+    name: string;
+    kind: "variable" | "parameter" | "function";
+    token: Token;
+    references: Token[];
+
+    /** The references that are the target of an assignment, which store into the variable without reading it. */
+    assignments: Token[];
+
+    /** The parameters of a function, in declaration order. */
+    parameters?: Declaration[];
+}
+
+type ScopeFunction = { name: string, parameters: { [key: string]: TranquilityType | TranquilityType[] }, declaration?: Declaration };
+type ScopeVariable = Declaration & { type: TranquilityType };
+
 class Scope {
 
     hasUntil = false;
-    functions: { name: string, parameters: { [key: string]: TranquilityType } }[] = [];
-    variables: { name: string, token: Token, type: TranquilityType }[] = [];
+    functions: ScopeFunction[] = [];
+    variables: ScopeVariable[] = [];
+
+    /** The braces that open and close the scope. The global scope has neither, and unclosed scopes have no end. */
+    start?: Token;
+    end?: Token;
 
     /**
      * Creates a new `Scope` as a child of the parent scope if given.
@@ -42,15 +63,17 @@ class Scope {
     constructor(public readonly type: ScopeType, public readonly parent?: Scope) {
         if (this.type === "global") {
             if (this.parent) throw "Error: global scope cannot have a parent scope";
-            builtInFunctions.forEach(func => this.functions.push({ name: func.name, parameters: func.parameters }));
+
+            // The built-in `init` only documents the entry point. Calls and references to `init` refer to the program's own.
+            builtInFunctions.filter(func => func.name !== "init").forEach(func => this.functions.push({ name: func.name, parameters: func.parameters }));
         }
     }
 
     /**
      * All functions in this scope, as well as any parent of this scope (direct or not)
      */
-    get allFunctions(): { name: string, parameters: { [key: string]: TranquilityType } }[] {
-        let all: { name: string, parameters: { [key: string]: TranquilityType } }[] = [];
+    get allFunctions(): ScopeFunction[] {
+        let all: ScopeFunction[] = [];
         let scope: Scope | undefined = this;
         while (scope) {
             scope.functions.forEach(func => all.push(func));
@@ -62,8 +85,8 @@ class Scope {
     /**
      * All variables in this scope, as well as any parent of this scope (direct or not)
      */
-    get allVariables(): { name: string, token: Token }[] {
-        let all: { name: string, token: Token }[] = [];
+    get allVariables(): ScopeVariable[] {
+        let all: ScopeVariable[] = [];
         let scope: Scope | undefined = this;
         while (scope) {
             scope.variables.forEach(variable => all.push(variable));
@@ -93,8 +116,45 @@ class Scope {
     hasFunctionWithName(name: string): boolean {
         return this.allFunctions.map(func => func.name).includes(name);
     }
+
+    /**
+     * Returns whether or not a position in the source code is between the braces of this scope.
+     * 
+     * @param line The line of the position
+     * @param column The column of the position
+     * 
+     * @returns whether or not the scope contains the position.
+     */
+    contains(line: number, column: number): boolean {
+        let isAfter = (token: Token) => line > token.line || (line === token.line && column > token.column);
+        if (this.start && !isAfter(this.start)) return false;
+        if (this.end && isAfter(this.end)) return false;
+        return true;
+    }
+
+    /**
+     * Finds the declaration an identifier refers to from this scope. Variables in inner scopes shadow those in outer
+     * scopes, and variables shadow functions.
+     * 
+     * @param name The identifier to resolve
+     * @param isCall Whether the identifier is the name of a called function, in which case only functions are searched
+     * 
+     * @returns The declaration, or `undefined` if the identifier is undeclared or names a built-in function.
+     */
+    resolve(name: string, isCall: boolean): Declaration | undefined {
+        if (!isCall) {
+            let variable = this.allVariables.find(variable => variable.name === name);
+            if (variable) return variable;
+        }
+        return this.allFunctions.find(func => func.name === name)?.declaration;
+    }
 }
 
+/**
+ * How serious a problem in a program is. The values match the diagnostic severities of the Language Server Protocol.
+ */
+export enum Severity { Error = 1, Warning = 2, Information = 3, Hint = 4 }
+
 /**
  * An `Error` that is tied to a token and has a severity. Used to create diagnostics at the tokens position.
  */
@@ -107,7 +167,7 @@ export class TokenError extends Error {
      * @param message The error message
      * @param severity The error severity
      */
-    constructor(public readonly token: Token, message: string, public readonly severity: vscode.DiagnosticSeverity = vscode.DiagnosticSeverity.Error) {
+    constructor(public readonly token: Token, message: string, public readonly severity: Severity = Severity.Error) {
         super(message);
     }
 }
@@ -117,13 +177,49 @@ export class TokenError extends Error {
  */
 export default class Parser {
 
-    private functionCallTokens: { name: string, token: Token, scope: Scope }[] = [];
+    private functionCallTokens: { name: string, token: Token, scope: Scope, arguments: ArithmeticNode[] }[] = [];
     private variableReferences: { name: string, token: Token, scope: Scope }[] = []
 
+    /**
+     * The identifiers that are the target of an assignment statement.
+     */
+    private readonly assignmentTargets = new Set<Token>();
+
+    /**
+     * The scope that contains global variables and all functions.
+     */
+    private readonly globalScope: Scope = new Scope("global");
+
     /**
      * The current scope of the parser.
      */
-    private currentScope: Scope = new Scope("global");
+    private currentScope: Scope = this.globalScope;
+
+    /**
+     * Every scope in the program, in the order they were opened.
+     */
+    private readonly scopes: Scope[] = [this.globalScope];
+
+    /**
+     * The errors found while parsing. Parsing continues after an error, so there may be more than one.
+     */
+    readonly errors: TokenError[] = [];
+
+    /**
+     * The warnings found while parsing. Unlike errors, warnings do not stop a program from compiling.
+     */
+    readonly warnings: TokenError[] = [];
+
+    /**
+     * Whether recovering from an error skipped any tokens. References in skipped code are never resolved, so declarations
+     * may look unused when they are not.
+     */
+    skippedTokens = false;
+
+    /**
+     * Every variable, parameter and function declared in the program. References are resolved once parsing is complete.
+     */
+    readonly declarations: Declaration[] = [];
 
     private lastConsumed: Token;
 
@@ -132,7 +228,7 @@ export default class Parser {
      * 
      * @param tokens The tokens to parse. 
      */
-    constructor(public readonly tokens: Token[], private readonly diagnostics: vscode.Diagnostic[]) { }
+    constructor(public readonly tokens: Token[]) { }
 
     /**
      * Removes and returns the next token. If the token is a left brace, a new `Scope` is created and set to the {@link currentScope}.
@@ -149,10 +245,17 @@ export default class Parser {
         if (expectedValue && this.tokens[0].value !== expectedValue) throw new TokenError(this.tokens[0], `Expected ${expectedValue} but found ${this.tokens[0].value}`);
 
         // If the next token is a right brace, exit the current scope and return the current scope to the parent.
-        if (this.nextIs("right brace")) this.currentScope = this.currentScope.parent!;
+        if (this.nextIs("right brace")) {
+            this.currentScope.end = this.tokens[0];
+            this.currentScope = this.currentScope.parent!;
+        }
 
         // If the next token is a left brace, enter a new scope with the old scope as the parent.
-        else if (this.nextIs("left brace")) this.currentScope = new Scope(scopeType!, this.currentScope);
+        else if (this.nextIs("left brace")) {
+            this.currentScope = new Scope(scopeType!, this.currentScope);
+            this.currentScope.start = this.tokens[0];
+            this.scopes.push(this.currentScope);
+        }
 
         this.lastConsumed = this.tokens[0];
 
@@ -187,7 +290,8 @@ export default class Parser {
     }
 
     /**
-     * Parses a program.
+     * Parses a program. Errors are recorded in {@link errors} and parsing resumes at the next function declaration, so the
+     * returned node contains every function that could be parsed.
      * 
      * Syntax:
      * 
@@ -197,73 +301,194 @@ export default class Parser {
      *      <var-list> | 
      *      <fun-list> |
      *      <var-list> <fun-list>
+     * 
+     * <fun-list> ::= 
+     *      <fun-decl> | 
+     *      <fun-decl> <fun-list>
      * ```
      * 
      * @returns The parsed node.
      * 
      * @see `<var-list>`: {@link parseVarList VariableList}
-     * @see `<fun-list>`: {@link parseFunctionList FunctionList}
+     * @see `<fun-decl>`: {@link parseFunctionDeclaration FunctionDeclaration}
      */
     parse(): ASTNode {
-        let node: ASTNode & { varList?: ASTNode, funList?: ASTNode, next?: any } = { type: "program" };
-        while (this.nextIs("newline")) this.next("newline");
-        while (this.nextIs("newline") || this.nextIs("keyword", "var")) {
-            while (this.nextIs("newline")) this.next("newline");
-            while (this.nextIs("keyword", "var")) node.varList = this.parseVarList();
-        }
-        while (this.nextIs("newline")) this.next("newline");
-        while (this.nextIs("newline") || this.nextIs("keyword", "fun")) {
-            while (this.nextIs("newline")) this.next("newline");
-            while (this.nextIs("keyword", "fun")) node.funList = this.parseFunctionList();
-        }
+        let node: ASTNode & { varList?: ASTNode & { next?: ASTNode }, funList?: FunDeclNode } = { type: "program" };
+        let lastVarList: (ASTNode & { next?: ASTNode }) | undefined;
+        let lastFunction: FunDeclNode | undefined;
+
+        while (this.tokens.length) {
+            try {
+                if (this.nextIs("newline")) this.next("newline");
+
+                // Variable lists must come before the function list
+                else if (this.nextIs("keyword", "var") && !node.funList) {
+                    let varList = this.parseVarList();
+                    if (lastVarList) lastVarList.next = varList;
+                    else node.varList = varList;
+                    lastVarList = varList;
+                    while (lastVarList.next) lastVarList = lastVarList.next;
+                }
+
+                else if (this.nextIs("keyword", "fun")) {
+                    let func = this.parseFunctionDeclaration();
+                    if (lastFunction) lastFunction.next = func;
+                    else node.funList = func;
+                    lastFunction = func;
+                }
+
+                else {
+                    let next = this.next();
+                    throw new TokenError(next, `Unexpected token "${next.value}" - Expected a function list or variable list`);
+                }
+            }
 
-        if (this.tokens.length) {
-            let next = this.next();
-            throw new TokenError(next, `Unexpected token "${next.value}" - Expected a function list or variable list`);
+            catch (error) {
+                this.recordError(error);
+
+                // Skip to the next function declaration
+                let unclosed = this.leaveScopes(this.globalScope);
+                while (this.tokens.length && !this.nextIs("keyword", "fun")) this.skip();
+                this.closeScopes(unclosed);
+            }
         }
-        
+
         this.detectErrors();
-        console.log(this.tokens);
         return node;
     }
 
+    /**
+     * Finds the variables, parameters and user-defined functions that are visible at a position in the parsed program.
+     * Inner declarations shadow outer declarations with the same name.
+     * 
+     * @param line The line of the position
+     * @param column The column of the position
+     * 
+     * @returns The visible declarations, and whether or not the position is inside a function.
+     */
+    declarationsAt(line: number, column: number): { declarations: Declaration[], inFunction: boolean } {
+        let scope = this.scopes.filter(scope => scope.contains(line, column)).pop()!;
+        let declarations: Declaration[] = [];
+        [...scope.allVariables, ...scope.allFunctions.map(func => func.declaration)].forEach(declaration => {
+            if (declaration && !declarations.some(visible => visible.name === declaration.name)) declarations.push(declaration);
+        });
+        return { declarations: declarations, inFunction: scope !== this.globalScope };
+    }
+
     private detectErrors() {
         this.functionCallTokens.forEach(func => {
             if (!func.scope.hasFunctionWithName(func.name)) {
-                throw new TokenError(func.token, `Function "${func.name}" is undefined`);
+                this.recordError(new TokenError(func.token, `Function "${func.name}" is undefined`));
             }
+            else this.checkCall(func);
+            func.scope.resolve(func.name, true)?.references.push(func.token);
         });
         
         this.variableReferences.forEach(variable => {
             if (!variable.scope.hasVariableWithName(variable.name)) {
-                throw new TokenError(variable.token, `Function "${variable.name}" is undefined`);
+                this.recordError(new TokenError(variable.token, `Variable "${variable.name}" is undefined`));
             }
+            let declaration = variable.scope.resolve(variable.name, false);
+            declaration?.references.push(variable.token);
+            if (this.assignmentTargets.has(variable.token)) declaration?.assignments.push(variable.token);
         });
     }
 
     /**
-     * Parses a function list.
+     * Checks the number and types of the arguments of a function call against the parameters of the called function.
      * 
-     * Syntax:
+     * @param call The call to check
+     */
+    private checkCall(call: { name: string, token: Token, scope: Scope, arguments: ArithmeticNode[] }): void {
+        let scopeFunction = call.scope.allFunctions.find(func => func.name === call.name)!;
+        let parameters = Object.keys(scopeFunction.parameters);
+        if (parameters.length !== call.arguments.length) {
+            this.recordError(new TokenError(call.token, `Incorrect number of arguments: Expected ${parameters.length} argument${parameters.length === 1 ? "" : "s"} but received ${call.arguments.length}`));
+            return;
+        }
+
+        parameters.forEach((parameter, i) => {
+            // Some built-in parameters accept more than one type, like prompts that are -1 for the default message
+            let parameterTypes = ([] as TranquilityType[]).concat(scopeFunction.parameters[parameter]);
+            let argument = call.arguments[i];
+
+            // Identifiers evaluate to addresses unless they name a function
+            let argumentType = argument.returnType;
+            if (argument.type === "identifier" && call.scope.resolve((argument as ArithmeticNode & { value: string }).value, false)?.kind === "function") argumentType = "function";
+
+            // Characters and booleans are integers at run time
+            if (parameterTypes.includes("integer") && ["character", "boolean"].includes(argumentType)) argumentType = "integer";
+
+            if (!parameterTypes.some(parameterType => operandsMatch(parameterType, argumentType))) {
+                this.recordError(new TokenError(argument.operation, `Argument of type "${argumentType}" is not assignable to parameter "${parameter}" of type "${parameterTypes.join(" | ")}" in call to "${call.name}"`));
+            }
+        });
+    }
+
+    /**
+     * Records an error so that parsing can continue. Anything other than a {@link TokenError} is a bug in the parser and is
+     * rethrown.
      * 
-     * ```tranquility
-     * <fun-list> ::= 
-     *      <fun-decl> | 
-     *      <fun-decl> <fun-list>
-     * ```
+     * @param error The caught error
+     */
+    private recordError(error: unknown): void {
+        if (!(error instanceof TokenError)) throw error;
+        this.errors.push(error);
+    }
+
+    /**
+     * Removes the next token without parsing it, while recovering from an error.
+     */
+    private skip(): void {
+        this.tokens.shift();
+        this.skippedTokens = true;
+    }
+
+    /**
+     * Returns to an enclosing scope after an error, leaving every scope opened inside it.
      * 
-     * @returns The parsed node.
+     * @param scope The scope to return to
      * 
-     * @see `<fun-decl>`: {@link parseFunctionDeclaration FunctionDeclaration}
+     * @returns The scopes that were left before reaching their right braces, innermost first.
+     */
+    private leaveScopes(scope: Scope): Scope[] {
+        let unclosed: Scope[] = [];
+        while (this.currentScope !== scope) {
+            unclosed.push(this.currentScope);
+            this.currentScope = this.currentScope.parent!;
+        }
+        return unclosed;
+    }
+
+    /**
+     * Ends the scopes that recovery skipped out of at the token parsing resumes from, so that their variables are not
+     * visible to the code after them. Scopes left at the end of the file stay open.
+     * 
+     * @param scopes The scopes to end
+     */
+    private closeScopes(scopes: Scope[]): void {
+        if (this.tokens.length) scopes.forEach(scope => scope.end = this.tokens[0]);
+    }
+
+    /**
+     * Skips the rest of a statement that could not be parsed: everything up to and including the next newline that is not
+     * inside a block. Stops before a right brace that closes the enclosing block or a function declaration.
+     * 
+     * @param depth The number of blocks the statement had opened before the error
      */
-    private parseFunctionList(): ASTNode {
-        let origNode: FunDeclNode & { next?: FunDeclNode } = this.parseFunctionDeclaration();
-        let node = origNode
-        while (this.nextIs("keyword", "fun")) {
-            node.next = this.parseFunctionDeclaration();
-            node = node.next;
+    private synchronize(depth: number): void {
+        while (this.tokens.length) {
+            if (depth === 0) {
+                if (this.nextIs("right brace") || this.nextIs("keyword", "fun")) return;
+                if (this.nextIs("newline")) {
+                    this.skip();
+                    return;
+                }
+            }
+            if (this.nextIs("left brace")) depth++;
+            if (this.nextIs("right brace")) depth--;
+            this.skip();
         }
-        return origNode;
     }
 
     /**
@@ -280,30 +505,33 @@ export default class Parser {
      * @see `<id-list>`: {@link parseIdentifierList IdentifierList}
      */
     private parseFunctionDeclaration(): FunDeclNode {
-        this.next("keyword", "fun");
+        let startToken = this.next("keyword", "fun");
         let nameToken = this.next("identifier");
         let name = nameToken.value;
-        if (name !== "init" && this.currentScope.hasFunctionWithName(name)) throw new TokenError(nameToken, `There already exists a function with the name "${name}" in the current scope. Choose a different name.`);
+        if (this.currentScope.hasFunctionWithName(name)) this.recordError(new TokenError(nameToken, `There already exists a function with the name "${name}" in the current scope. Choose a different name.`));
 
         this.next("left parentheses");
         let args: IdListNode | null = null;
         if (!this.nextIs("right parentheses")) args = this.parseIdentifierList();
 
-        this.next("right parentheses");
+        let parametersEndToken = this.next("right parentheses");
         this.next("left brace", undefined, "function");
         this.next("newline");
 
-        let node: FunDeclNode = { type: "function declaration", name: name };
-        let scopeFunction: { name: string, parameters: { [key: string]: TranquilityType } } = { name: name, parameters: {} }
+        let node: FunDeclNode = { type: "function declaration", name: name, token: nameToken, startToken: startToken, parametersEndToken: parametersEndToken, arguments: args ?? undefined };
+        let declaration: Declaration = { name: name, kind: "function", token: nameToken, references: [], assignments: [] };
+        let scopeFunction: ScopeFunction = { name: name, parameters: {}, declaration: declaration };
         this.currentScope.parent!.functions.push(scopeFunction);
-        console.log(name);
-        console.log("DECL:", this.currentScope.allFunctions);
-        console.log(this.currentScope.parent!.functions)
+        this.declarations.push(declaration);
 
         let param = args;
         let parameterCount = 0;
+        declaration.parameters = [];
         while (param) {
-            this.currentScope.variables.push({ name: param.value, token: param.token, type: "any" });
+            let parameter: ScopeVariable = { name: param.value, kind: "parameter", token: param.token, references: [], assignments: [], type: "any" };
+            this.currentScope.variables.push(parameter);
+            this.declarations.push(parameter);
+            declaration.parameters.push(parameter);
             parameterCount++;
             scopeFunction.parameters[param.token.value] = "any"
             param = param.next!;
@@ -315,7 +543,7 @@ export default class Parser {
 
         node.name = name;
         node.body = body;
-        this.next("right brace");
+        node.endToken = this.next("right brace");
         this.next("newline");
         return node;
     }
@@ -363,16 +591,16 @@ export default class Parser {
         this.next("keyword", "var");
         node.idList = this.parseIdentifierList();
         this.next("newline");
-        if (this.nextNextIs("keyword", "var")) node.next = this.parseVarList(node);
+        if (this.nextIs("keyword", "var")) node.next = this.parseVarList(node);
 
         // Only check variables if the node is complete, ie., all sub-nodes are generated and no sub-nodes call this
         if (!previousNode) {
-            let variables: { name: string, token: Token, type: TranquilityType }[] = [];
+            let variables: ScopeVariable[] = [];
             let searchingNode = node;
             while (searchingNode) {
                 let id = searchingNode.idList!;
                 while (id) {
-                    variables.push({ name: id.value, token: id.token, type: "any" });
+                    variables.push({ name: id.value, kind: "variable", token: id.token, references: [], assignments: [], type: "any" });
                     id = id.next!;
                 }
                 searchingNode = searchingNode.next!;
@@ -380,8 +608,9 @@ export default class Parser {
 
             // Add the variables to the current scope
             variables.forEach(variable => {
-                if (this.currentScope.hasVariableWithName(variable.name)) throw new TokenError(variable.token, `Duplicate identifier "${variable.name}"`);
+                if (this.currentScope.hasVariableWithName(variable.name)) this.recordError(new TokenError(variable.token, `Duplicate identifier "${variable.name}"`));
                 this.currentScope.variables.push(variable);
+                this.declarations.push(variable);
             });
         }
 
@@ -389,7 +618,7 @@ export default class Parser {
     }
 
     /**
-     * Parses a statement list.
+     * Parses a statement list. Statements that cannot be parsed are recorded in {@link errors} and skipped.
      * 
      * Syntax:
      * 
@@ -399,14 +628,38 @@ export default class Parser {
      *      <stmt> <stmt-list>
      * ```
      * 
-     * @returns The parsed node.
+     * @returns The parsed node, or `undefined` if no statement could be parsed.
      * @see `<stmt>`: {@link parseStatement Statement}
      */
-    private parseStatementList(): ASTNode {
-        let node: ASTNode & { next?: ASTNode, statement?: ASTNode } = { type: "statement list" };
-        node.statement = this.parseStatement();
-        if (!this.nextIs("right brace")) node.next = this.parseStatementList();
-        return node;
+    private parseStatementList(): ASTNode | undefined {
+        let first: (ASTNode & { next?: ASTNode, statement?: ASTNode }) | undefined;
+        let last = first;
+        while (this.tokens.length && !this.nextIs("right brace")) {
+            if (this.nextIs("keyword", "fun")) throw new TokenError(this.tokens[0], `Expected "}" before the next function declaration`);
+
+            let scope = this.currentScope;
+            let remainingTokens = this.tokens.length;
+            try {
+                let node: ASTNode & { next?: ASTNode, statement?: ASTNode } = { type: "statement list", statement: this.parseStatement() };
+                if (last) last.next = node;
+                else first = node;
+                last = node;
+            }
+            catch (error) {
+                this.recordError(error);
+
+                // Return to the scope the statement started in, skipping any blocks it opened
+                let unclosed = this.leaveScopes(scope);
+                let depth = unclosed.length;
+
+                // The statement may have already ended on the newline that caused the error
+                let endedOnNewline = this.tokens.length < remainingTokens && this.lastConsumed.type === "newline";
+                if (depth > 0 || !endedOnNewline) this.synchronize(depth);
+                if (this.tokens.length === remainingTokens) this.skip();
+                this.closeScopes(unclosed);
+            }
+        }
+        return first;
     }
 
     /**
@@ -438,8 +691,8 @@ export default class Parser {
 
         // Until statement
         if (this.nextIs("keyword", "until")) {
-            let node: ASTNode & { expression?: ASTNode } = { type: "until statement" };
-            this.next("keyword", "until");
+            let node: ASTNode & { expression?: ASTNode, token?: Token } = { type: "until statement" };
+            node.token = this.next("keyword", "until");
             this.currentScope.hasUntil = true;
             node.expression = this.parseExpression();
             this.next("newline");
@@ -448,12 +701,12 @@ export default class Parser {
 
         // Loop statement
         if (this.nextIs("keyword", "loop")) {
-            let node: ASTNode & { body?: ASTNode } = { type: "loop" };
             let loopKeyword = this.next("keyword", "loop");
+            let node: ASTNode & { body?: ASTNode, token?: Token } = { type: "loop", token: loopKeyword };
             this.next("left brace", undefined, "loop");
             this.next("newline");
             if (!this.nextIs("right brace")) node.body = this.parseStatementList();
-            if (!this.currentScope.hasUntil) throw new TokenError(loopKeyword, "Infinite loop: Loop statement is missing \`until\` statement.");
+            if (!this.currentScope.hasUntil) this.recordError(new TokenError(loopKeyword, "Infinite loop: Loop statement is missing \`until\` statement."));
             this.next("right brace");
             this.next("newline");
             return node;
@@ -461,8 +714,8 @@ export default class Parser {
 
         // Return statement
         if (this.nextIs("keyword", "return")) {
-            this.next("keyword", "return");
-            let node: ASTNode & { expression?: ASTNode } = { type: "return statement" };
+            let returnKeyword = this.next("keyword", "return");
+            let node: ASTNode & { expression?: ASTNode, token?: Token } = { type: "return statement", token: returnKeyword };
             if (this.nextIs("newline")) {
                 this.next("newline");
                 return node;
@@ -472,10 +725,12 @@ export default class Parser {
             return node;
         }
 
+        let first = this.tokens[0];
         let expression = this.parseExpression();
 
         // Assignment statement
         if (this.nextIs("colon")) {
+            if (first.type === "identifier" && this.lastConsumed === first) this.assignmentTargets.add(first);
             this.next("colon");
             let node: ASTNode & { expression1?: ASTNode, expression2?: ASTNode } = { type: "assignment" };
             node.expression1 = expression;
@@ -519,8 +774,8 @@ export default class Parser {
             let right = this.parseBitwiseComparisonExpression();
 
             // Check arithmetic
-            if (!operandsMatch(node.returnType, right.returnType)) throw new TokenError(operation, `Cannot XOR a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} with a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`);
-            if (left.returnType === "address" || right.returnType === "address") tokenNonError(this.diagnostics, operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, vscode.DiagnosticSeverity.Warning);
+            if (!operandsMatch(node.returnType, right.returnType)) this.recordError(new TokenError(operation, `Cannot XOR a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} with a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`));
+            if (left.returnType === "address" || right.returnType === "address") this.warnings.push(new TokenError(operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, Severity.Warning));
 
             // Reconstruct the node with the LHS, operation, and RHS.
             node = {
@@ -559,8 +814,8 @@ export default class Parser {
             let right = this.parseComparisonExpression();
 
             // Check arithmetic
-            if (!operandsMatch(node.returnType, right.returnType)) throw new TokenError(operation, `Cannot bitwise compare a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} to a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`);
-            if (left.returnType === "address" || right.returnType === "address") tokenNonError(this.diagnostics, operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, vscode.DiagnosticSeverity.Warning);
+            if (!operandsMatch(node.returnType, right.returnType)) this.recordError(new TokenError(operation, `Cannot bitwise compare a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} to a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`));
+            if (left.returnType === "address" || right.returnType === "address") this.warnings.push(new TokenError(operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, Severity.Warning));
 
             // Reconstruct the node with the LHS, operation, and RHS.
             node = {
@@ -603,8 +858,8 @@ export default class Parser {
             let right = this.parseBitwiseShiftExpression();
 
             // Check arithmetic
-            if (!operandsMatch(node.returnType, right.returnType)) throw new TokenError(operation, `Cannot compare a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} to a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`);
-            if (left.returnType === "address" || right.returnType === "address") tokenNonError(this.diagnostics, operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, vscode.DiagnosticSeverity.Warning);
+            if (!operandsMatch(node.returnType, right.returnType)) this.recordError(new TokenError(operation, `Cannot compare a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} to a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`));
+            if (left.returnType === "address" || right.returnType === "address") this.warnings.push(new TokenError(operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, Severity.Warning));
 
             // Reconstruct the node with the LHS, operation, and RHS.
             node = {
@@ -643,8 +898,8 @@ export default class Parser {
             let right = this.parseAdditiveExpression();
 
             // Check arithmetic
-            if (!operandsMatch(node.returnType, right.returnType)) throw new TokenError(operation, `Cannot shift a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} by a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`);
-            if (left.returnType === "address" || right.returnType === "address") tokenNonError(this.diagnostics, operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, vscode.DiagnosticSeverity.Warning);
+            if (!operandsMatch(node.returnType, right.returnType)) this.recordError(new TokenError(operation, `Cannot shift a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} by a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`));
+            if (left.returnType === "address" || right.returnType === "address") this.warnings.push(new TokenError(operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, Severity.Warning));
 
             // Reconstruct the node with the LHS, operation, and RHS.
             node = {
@@ -684,8 +939,8 @@ export default class Parser {
             let right = this.parseMultiplicativeExpression();
 
             // Check arithmetic
-            if (!operandsMatch(node.returnType, right.returnType)) throw new TokenError(operation, `Cannot add a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} by a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`);
-            if (left.returnType === "address" || right.returnType === "address") tokenNonError(this.diagnostics, operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, vscode.DiagnosticSeverity.Warning);
+            if (!operandsMatch(node.returnType, right.returnType)) this.recordError(new TokenError(operation, `Cannot add a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} by a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`));
+            if (left.returnType === "address" || right.returnType === "address") this.warnings.push(new TokenError(operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, Severity.Warning));
 
             // Reconstruct the node with the LHS, operation, and RHS.
             node = {
@@ -725,8 +980,8 @@ export default class Parser {
             let right = this.parseUnaryExpression();
 
             // Check arithmetic
-            if (!operandsMatch(node.returnType, right.returnType)) throw new TokenError(operation, `Cannot multiply a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} by a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`);
-            if (left.returnType === "address" || right.returnType === "address") tokenNonError(this.diagnostics, operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, vscode.DiagnosticSeverity.Warning);
+            if (!operandsMatch(node.returnType, right.returnType)) this.recordError(new TokenError(operation, `Cannot multiply a${/^[aeiou]/.test(left.returnType) ? "n" : ""} ${left.returnType} by a${/^[aeiou]/.test(right.returnType) ? "n" : ""} ${right.returnType}`));
+            if (left.returnType === "address" || right.returnType === "address") this.warnings.push(new TokenError(operation, `Unsafe pointer arithmetic. Did you mean to get the value stored at a memory location with "."?`, Severity.Warning));
 
             // Reconstruct the node with the LHS, operation, and RHS.
             node = {
@@ -750,14 +1005,14 @@ export default class Parser {
 
     private parseParenthesizedExpression(): ArithmeticNode {
         let operation = this.next("left parentheses");
-        let node: ExpressionNode & { expression?: ArithmeticNode } = { type: "expression" };
-        if (!this.nextIs("right parentheses")) node.expression = this.parseExpression();
+        if (this.nextIs("right parentheses")) throw new TokenError(this.tokens[0], `Unexpected token ")" - Expected expression.`);
+        let node: ExpressionNode & { expression: ArithmeticNode } = { type: "expression", expression: this.parseExpression() };
         this.next("right parentheses");
         return {
             ...node,
             operation: operation,
             left: node,
-            returnType: node.expression!.returnType
+            returnType: node.expression.returnType
         }
     }
 
@@ -780,32 +1035,18 @@ export default class Parser {
             this.next("left parentheses");
             let node: ASTNode & { name: string, arguments?: ArithmeticNode & { next?: ArithmeticNode } } = { type: "function call", name: literal.value };
 
-            // Get number of arguments and parse them
-            let args: { [key: string]: TranquilityType } = {};
+            // Parse the arguments. They are checked against the parameters once every function has been declared.
+            let args: ArithmeticNode[] = [];
             if (!this.nextIs("right parentheses")) {
                 node.arguments = this.parseExpressionList();
-                let arg = node.arguments;
-                let i = 0;
+                let arg: (ArithmeticNode & { next?: ArithmeticNode }) | undefined = node.arguments;
                 while (arg) {
-                    args[String(i)] = arg.returnType
-                    arg = arg.next!;
-                    i++;
+                    args.push(arg);
+                    arg = arg.next;
                 }
             }
 
-            this.functionCallTokens.push({ token: literal.token, name: node.name, scope: this.currentScope });
-
-            // Error if calling with incorrect number of arguments TODO MOVE TO DIAGNOSTIC
-            // let argumentCount = Object.keys(args).length;
-            // let scopeFunction = this.currentScope.allFunctions.find(func => func.name === node.name)!;
-            // let parameterCount = Object.keys(scopeFunction.parameters).length;
-            // if (parameterCount !== argumentCount) throw new TokenError(literal.token, `Incorrect number of arguments: Expected ${parameterCount} argument${parameterCount === 1 ? "" : "s"} but received ${argumentCount}`);
-
-            // Error if incorrect argument types
-            // let i = 0;
-            // Object.keys(scopeFunction.parameters).forEach(param => {
-            //     if (!operandsMatch(scopeFunction.parameters[param], args[i])) throw new TokenError(literal.token, `Incorrect function call - Parameter "${param}" of type "${scopeFunction.parameters[param]}" is not assignable to argument of type "${args[i]}"`);
-            // })
+            this.functionCallTokens.push({ token: literal.token, name: node.name, scope: this.currentScope, arguments: args });
 
             this.next("right parentheses");
             return {
@@ -886,22 +1127,20 @@ export default class Parser {
         }
 
         let next = this.next();
-        console.log(next.type);
         throw new TokenError(next, `Unexpected token: "${next.value.replace(/\n/g, "\\n")}" of type ${next.type} - Expected expression.`);
     }
 
     private parseLiteral(): ASTNode & { value: string, token: Token } {
         let next = this.next();
         if (next.type === "string") {
-            let val = next.value.replace(/\\/g, "\\\\");
-            let escapeRegex = /[^\\]\\(\.)/;
-            let match = escapeRegex.exec(val);
+            let escapeRegex = /\\(.)/g;
+            let match = escapeRegex.exec(next.value);
             while (match) {
                 let char = match[1];
-                if (!(char === "b" || char === "n" || char === "r" || char === "t" || char === "\\")) {
-                    throw new TokenError(next, `Invalid escape sequence "\\${char}". Supported escape sequences are \\b, \\n, \\r, \\t, and \\\\`);
+                if (!(char === "b" || char === "n" || char === "r" || char === "t" || char === "\\" || char === "\"")) {
+                    this.recordError(new TokenError(next, `Invalid escape sequence "\\${char}". Supported escape sequences are \\b, \\n, \\r, \\t, and \\\\`));
                 }
-                match = escapeRegex.exec(val);
+                match = escapeRegex.exec(next.value);
             }
         }
         return { type: next.type, value: next.value, token: next };
@@ -909,16 +1148,18 @@ export default class Parser {
 
     private parseExpressionList(): ArithmeticNode & { next?: ArithmeticNode } {
         let expression: ArithmeticNode & { next?: ArithmeticNode } = this.parseExpression();
+        let last = expression;
         while (this.nextIs("comma")) {
             this.next("comma");
-            expression.next = this.parseExpression();
+            last.next = this.parseExpression();
+            last = last.next;
         }
         return expression;
     }
 
     private parseIfStatement(): ASTNode {
-        let node: ASTNode & { condition?: ASTNode, body?: ASTNode, elseBody?: ASTNode } = { type: "if statement" };
-        this.next("keyword", "if");
+        let node: ASTNode & { condition?: ASTNode, body?: ASTNode, elseBody?: ASTNode, token?: Token } = { type: "if statement" };
+        node.token = this.next("keyword", "if");
         node.condition = this.parseExpression();
         this.next("left brace", undefined, "if");
         this.next("newline");
@@ -0,0 +1,216 @@
+import { CodeAction, CodeActionKind, Command, Diagnostic, Position, Range, TextEdit, WorkspaceEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import tokenize, { Token } from "./lexer";
+import Parser, { ASTNode, FunDeclNode, IdListNode } from "./parser";
+
+type VarListNode = ASTNode & { idList: IdListNode, next?: VarListNode };
+
+/**
+ * The commands used by quick fixes that cannot be written as a plain edit. Editors that can do better than a plain edit,
+ * like inserting a snippet or changing the line endings setting of a document, run these commands themselves; other
+ * editors ask the language server to run them with {@link commandEdit}.
+ */
+export let quickFixCommands = {
+    insertUntil: "tranquility.insertUntil",
+    convertToLF: "tranquility.convertToLF"
+};
+
+/**
+ * Creates a quick fix that applies a workspace edit.
+ *
+ * @param title The title shown in the light bulb menu
+ * @param diagnostic The diagnostic the fix resolves
+ * @param edit The edit that fixes the problem
+ * @param isPreferred Whether or not this is the fix to apply with "Auto Fix"
+ *
+ * @returns The code action.
+ */
+function quickFix(title: string, diagnostic: Diagnostic, edit: WorkspaceEdit, isPreferred: boolean = false): CodeAction {
+    let action = CodeAction.create(title, edit, CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = isPreferred;
+    return action;
+}
+
+/**
+ * Creates a quick fix that runs one of the {@link quickFixCommands}.
+ *
+ * @param title The title shown in the light bulb menu
+ * @param diagnostic The diagnostic the fix resolves
+ * @param command The command to run
+ * @param args The arguments of the command
+ *
+ * @returns The code action.
+ */
+function commandFix(title: string, diagnostic: Diagnostic, command: string, ...args: unknown[]): CodeAction {
+    let action = CodeAction.create(title, Command.create(title, command, ...args), CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    return action;
+}
+
+/**
+ * Creates a workspace edit that changes a single document.
+ *
+ * @param document The document to edit
+ * @param edits The changes to the document
+ *
+ * @returns The workspace edit.
+ */
+function documentEdit(document: TextDocument, ...edits: TextEdit[]): WorkspaceEdit {
+    return { changes: { [document.uri]: edits } };
+}
+
+/**
+ * Finds the last variable in a variable list.
+ *
+ * @param varList The variable list
+ *
+ * @returns The token of the last variable.
+ */
+function lastVariable(varList: VarListNode): Token {
+    while (varList.next) varList = varList.next;
+    let id = varList.idList;
+    while (id.next) id = id.next;
+    return id.token;
+}
+
+/**
+ * Creates an edit that declares a variable, either by adding it to the end of an existing variable list or by inserting a
+ * new `var` statement.
+ *
+ * @param document The document to edit
+ * @param name The name of the variable
+ * @param varList The variable list to add the variable to, if there is one
+ * @param line The line to insert a new `var` statement at if there is no variable list
+ * @param indentation The indentation of the new `var` statement
+ *
+ * @returns The edit.
+ */
+function declareVariable(document: TextDocument, name: string, varList: VarListNode | undefined, line: number, indentation: string): WorkspaceEdit {
+    if (varList) {
+        let last = lastVariable(varList);
+        return documentEdit(document, TextEdit.insert(Position.create(last.line, last.column + last.value.length), `, ${name}`));
+    }
+    return documentEdit(document, TextEdit.insert(Position.create(line, 0), `${indentation}var ${name}\n`));
+}
+
+/**
+ * Creates the fixes for a variable that is used without being declared: declaring it in the function it is used in, or
+ * as a global variable.
+ *
+ * @param document The document containing the variable
+ * @param diagnostic The diagnostic of the undefined variable
+ * @param name The name of the variable
+ *
+ * @returns The code actions.
+ */
+function declarationFixes(document: TextDocument, diagnostic: Diagnostic, name: string): CodeAction[] {
+    let program = new Parser(tokenize(document.getText())).parse() as ASTNode & { varList?: VarListNode, funList?: FunDeclNode };
+    let lines = document.getText().split("\n");
+    let actions: CodeAction[] = [];
+
+    let func = program.funList;
+    while (func) {
+        if (func.startToken && func.endToken && func.startToken.line <= diagnostic.range.start.line && diagnostic.range.start.line <= func.endToken.line) break;
+        func = func.next;
+    }
+    if (func?.parametersEndToken) {
+        // Local variables are declared on the line after the opening brace of the function, indented like its body
+        let line = func.parametersEndToken.line + 1;
+        let indentation = line < lines.length && /\S/.test(lines[line]) ? /^\s*/.exec(lines[line])![0] : "    ";
+        let varList = (func.body as ASTNode & { varList?: VarListNode } | undefined)?.varList;
+        actions.push(quickFix(`Declare "${name}" as a local variable of "${func.name}"`, diagnostic, declareVariable(document, name, varList, line, indentation), true));
+    }
+    actions.push(quickFix(`Declare "${name}" as a global variable`, diagnostic, declareVariable(document, name, program.varList, 0, ""), !func));
+    return actions;
+}
+
+/**
+ * Creates the fix for a loop without an `until` statement, which inserts one before the closing brace of the loop.
+ *
+ * @param document The document containing the loop
+ * @param diagnostic The diagnostic of the infinite loop
+ *
+ * @returns The code action, or `undefined` if the end of the loop cannot be found.
+ */
+function untilFix(document: TextDocument, diagnostic: Diagnostic): CodeAction | undefined {
+    let tokens = tokenize(document.getText());
+    let lines = document.getText().split("\n");
+    let start = tokens.findIndex(token => token.line === diagnostic.range.start.line && token.column === diagnostic.range.start.character && token.value === "loop");
+    if (start === -1) return undefined;
+
+    let depth = 0;
+    let end = tokens.slice(start).find(token => {
+        if (token.type === "left brace") depth++;
+        if (token.type === "right brace") depth--;
+        return token.type === "right brace" && depth === 0;
+    });
+    if (!end) return undefined;
+
+    // Indent the statement like the body of the loop, or one level deeper than the loop if its body is empty
+    let loopIndentation = /^\s*/.exec(lines[tokens[start].line])![0];
+    let indentation = loopIndentation + "    ";
+    for (let line = tokens[start].line + 1; line < end.line; line++) {
+        if (/\S/.test(lines[line])) {
+            indentation = /^\s*/.exec(lines[line])![0];
+            break;
+        }
+    }
+
+    return commandFix("Add an `until` statement to the loop", diagnostic, quickFixCommands.insertUntil, document.uri, Position.create(end.line, 0), indentation);
+}
+
+/**
+ * Creates quick fixes for semicolons, carriage returns, equal signs, undefined variables and infinite loops.
+ *
+ * @param document The document with the problems
+ * @param diagnostics The diagnostics to fix
+ *
+ * @returns The code actions.
+ */
+export function provideCodeActions(document: TextDocument, diagnostics: Diagnostic[]): CodeAction[] {
+    let actions: CodeAction[] = [];
+    diagnostics.forEach(diagnostic => {
+        let undefinedVariable = /Variable "(.+)" is undefined/.exec(diagnostic.message);
+
+        if (diagnostic.message.includes("Semicolons are not allowed")) {
+            actions.push(quickFix("Remove the semicolon", diagnostic, documentEdit(document, TextEdit.del(diagnostic.range)), true));
+        }
+        else if (diagnostic.message.includes("Carriage returns are not allowed")) {
+            if (actions.some(action => action.title.includes("LF"))) return;
+            actions.push(commandFix("Convert line endings from CRLF to LF", diagnostic, quickFixCommands.convertToLF, document.uri));
+        }
+        else if (diagnostic.message.includes("Equal signs are not used")) {
+            actions.push(quickFix("Replace \"=\" with \":\"", diagnostic, documentEdit(document, TextEdit.replace(diagnostic.range, ":")), true));
+        }
+        else if (undefinedVariable) actions.push(...declarationFixes(document, diagnostic, undefinedVariable[1]));
+        else if (diagnostic.message.includes("Infinite loop")) {
+            let action = untilFix(document, diagnostic);
+            if (action) actions.push(action);
+        }
+    });
+    return actions;
+}
+
+/**
+ * Creates the plain edit that one of the {@link quickFixCommands} makes, for editors that do not run the command
+ * themselves.
+ *
+ * @param document The document the command changes
+ * @param command The command
+ * @param args The arguments of the command, after the URI of the document
+ *
+ * @returns The edit, or `null` if the command is unknown.
+ */
+export function commandEdit(document: TextDocument, command: string, args: unknown[]): WorkspaceEdit | null {
+    if (command === quickFixCommands.insertUntil) {
+        let [position, indentation] = args as [Position, string];
+        return documentEdit(document, TextEdit.insert(position, `${indentation}until condition\n`));
+    }
+    if (command === quickFixCommands.convertToLF) {
+        let code = document.getText();
+        return documentEdit(document, TextEdit.replace(Range.create(document.positionAt(0), document.positionAt(code.length)), code.replace(/\r\n?/g, "\n")));
+    }
+    return null;
+}
@@ -0,0 +1,450 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as ReadLine from "readline";
+import { stdin, stdout } from "process";
+import { HeadlessGui } from "../lib/gui";
+import { Host } from "../lib/host";
+import { builtInFunctions } from "./builtins";
+import { findProblems } from "./diagnostics";
+import TypeInference, { inferTypes } from "./inference";
+import Interpreter from "./interpreter";
+import tokenize from "./lexer";
+import Parser, { ArithmeticNode, ASTNode, Declaration, FunDeclNode, IdListNode, Severity } from "./parser";
+
+type StatementListNode = ASTNode & { statement: ASTNode, next?: StatementListNode };
+type VarListNode = ASTNode & { idList: IdListNode, next?: VarListNode };
+type ProgramNode = ASTNode & { varList?: VarListNode, funList?: FunDeclNode };
+
+let help = `Enter a var declaration, a fun definition, or a statement or expression to run it. Expressions print their
+value. Input that opens a block continues until an empty line.
+
+Commands:
+    :load <file>        Adds the variables and functions of a file
+    :mem <addr> <len>   Prints <len> words of memory starting at <addr>
+    :reset              Forgets every variable and function and clears memory
+    :help               Shows this message
+    :quit               Exits the REPL`;
+
+/**
+ * The name of the function that statements and expressions are run in.
+ */
+let wrapperName = "__repl__";
+
+/**
+ * Returns whether or not an expression has a value worth printing, which is anything but a call to a function that
+ * returns nothing.
+ *
+ * @param expression The expression
+ * @param declarations The declarations of the program the expression is in
+ * @param types The inferred types of the program
+ *
+ * @returns whether or not the value should be printed.
+ */
+function hasValue(expression: ArithmeticNode, declarations: Declaration[], types: TypeInference): boolean {
+    if (expression.type !== "function call") return true;
+    let name = (expression.left as ASTNode & { name: string }).name;
+    let builtIn = builtInFunctions.find(func => func.name === name);
+    if (builtIn) return builtIn.returnType !== "void";
+    let declaration = declarations.find(declaration => declaration.kind === "function" && declaration.name === name);
+    return !declaration || types.typeOf(declaration) !== "void";
+}
+
+/**
+ * The source code of a program put together from the definitions of the session and new input, along with the line of
+ * the input each line of the program came from, so that problems can be reported where the user wrote them.
+ */
+class ProgramText {
+    readonly lines: string[] = [];
+    readonly origins: (number | undefined)[] = [];
+
+    /**
+     * Adds lines to the end of the program.
+     *
+     * @param text The lines to add
+     * @param firstLine The line of the input the text starts at, or `undefined` if the text is not part of the input
+     */
+    add(text: string, firstLine?: number): void {
+        text.split("\n").forEach((line, index) => {
+            this.lines.push(line);
+            this.origins.push(firstLine === undefined ? undefined : firstLine + index);
+        });
+    }
+
+    get code(): string {
+        return this.lines.join("\n") + "\n";
+    }
+}
+
+/**
+ * An interactive session. Every input is checked together with the variables and functions defined before it, then run
+ * by an {@link Interpreter} whose memory lives as long as the session.
+ */
+class Repl implements Host {
+    readonly gui = new HeadlessGui();
+
+    private interpreter = new Interpreter({ type: "program" }, this);
+
+    /**
+     * The names of the global variables defined so far, in the order they were defined.
+     */
+    private globals: string[] = [];
+
+    /**
+     * The source code of each function defined so far.
+     */
+    private functions: Map<string, string> = new Map();
+
+    private input = ReadLine.createInterface({ input: stdin, output: stdout, terminal: stdin.isTTY });
+    private lines: string[] = [];
+    private waiting: ((line: string | undefined) => void)[] = [];
+    private closed = false;
+    private running = false;
+    private interrupted = false;
+    private atLineStart = true;
+
+    constructor() {
+        // Lines can arrive before they are asked for when input is piped, so they are queued until they are read
+        this.input.on("line", line => {
+            let resolve = this.waiting.shift();
+            if (resolve) resolve(line);
+            else this.lines.push(line);
+        });
+        this.input.on("close", () => {
+            this.closed = true;
+            this.waiting.splice(0).forEach(resolve => resolve(undefined));
+        });
+        this.input.on("SIGINT", () => {
+            if (this.running) {
+                this.interrupted = true;
+                this.interpreter.stop();
+            }
+            else this.input.close();
+        });
+    }
+
+    write(text: string): void {
+        if (!text) return;
+        stdout.write(text);
+        this.atLineStart = text.endsWith("\n");
+    }
+
+    async readLine(prompt: string): Promise<string> {
+        return await this.read(prompt) ?? "";
+    }
+
+    /**
+     * Prompts for a line of input.
+     *
+     * @param prompt The prompt
+     *
+     * @returns The line, or `undefined` if the input has ended.
+     */
+    private read(prompt: string): Promise<string | undefined> {
+        let line = this.lines.shift();
+        if (line === undefined && this.closed) return Promise.resolve(undefined);
+
+        // Piped input is not echoed, so prompts are written like any other output
+        if (!stdin.isTTY) {
+            this.write(prompt);
+            return line === undefined ? new Promise(resolve => this.waiting.push(resolve)) : Promise.resolve(line);
+        }
+
+        if (!this.atLineStart) this.write("\n");
+
+        // The user ends the line by pressing enter
+        this.atLineStart = true;
+
+        if (line !== undefined) return Promise.resolve(line);
+        this.input.setPrompt(prompt);
+        this.input.prompt();
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    /**
+     * Prints a line of REPL output, starting a new line first if the program left one unfinished.
+     *
+     * @param text The line to print
+     */
+    private print(text: string): void {
+        if (!this.atLineStart) this.write("\n");
+        this.write(text + "\n");
+    }
+
+    /**
+     * Reads and runs input until the input ends or the user quits.
+     */
+    async start(): Promise<void> {
+        if (stdin.isTTY) this.print("Tranquility REPL. Type :help for help.");
+
+        let pending: string[] = [];
+        while (true) {
+            // Only the user needs to be prompted for the lines of a session
+            let line = await this.read(!stdin.isTTY ? "" : pending.length ? "... " : "> ");
+            if (line === undefined) {
+                if (stdin.isTTY || !this.atLineStart) this.write("\n");
+                break;
+            }
+
+            if (!pending.length) {
+                if (!line.trim()) continue;
+                if (line.trim().startsWith(":")) {
+                    if (!await this.command(line.trim())) break;
+                    continue;
+                }
+            }
+
+            // Blocks continue until an empty line, so that an `else` can follow the closing brace of an `if`
+            pending.push(line);
+            let depth = tokenize(pending.join("\n")).reduce((depth, token) => depth + (token.type === "left brace" ? 1 : token.type === "right brace" ? -1 : 0), 0);
+            if (pending.length === 1 ? depth > 0 : depth > 0 || line.trim()) continue;
+
+            let code = pending.join("\n").trimEnd();
+            pending = [];
+            await this.submit(code);
+        }
+        this.interpreter.stop();
+        this.input.close();
+    }
+
+    /**
+     * Runs a REPL command.
+     *
+     * @param line The command and its arguments
+     *
+     * @returns whether or not the REPL should keep running.
+     */
+    private async command(line: string): Promise<boolean> {
+        let [command, ...args] = line.split(/\s+/);
+        switch (command) {
+            case ":load": {
+                let file = line.substring(command.length).trim();
+                if (!file) {
+                    this.print("Usage: :load <file>");
+                    break;
+                }
+                let code: string;
+                try {
+                    code = fs.readFileSync(file, "utf8");
+                }
+                catch (error) {
+                    this.print(`Cannot read ${file}: ${(error as Error).message}`);
+                    break;
+                }
+                await this.submit(code.trimEnd(), file);
+                break;
+            }
+            case ":mem": {
+                let [address, length] = args.map(arg => parseInt(arg, 10));
+                if (args.length !== 2 || isNaN(address) || isNaN(length) || length < 0) {
+                    this.print("Usage: :mem <addr> <len>");
+                    break;
+                }
+                this.dump(address, length);
+                break;
+            }
+            case ":reset":
+                this.interpreter.stop();
+                this.interpreter.reset();
+                this.globals = [];
+                this.functions.clear();
+                break;
+            case ":help":
+                this.print(help);
+                break;
+            case ":quit":
+            case ":exit":
+                return false;
+            default:
+                this.print(`Unknown command "${command}". Type :help for a list of commands.`);
+        }
+        return true;
+    }
+
+    /**
+     * Prints a range of memory, eight words to a line.
+     *
+     * @param address The first address to print
+     * @param length The number of words to print
+     */
+    private dump(address: number, length: number): void {
+        let memory = this.interpreter.memory;
+        let end = Math.min(address + length, memory.length);
+        for (let start = Math.max(address, 0); start < end; start += 8) {
+            let words = memory.slice(start, Math.min(start + 8, end));
+            let text = words.map(word => word >= 32 && word < 127 ? String.fromCharCode(word) : ".").join("");
+            this.print(`${String(start).padStart(5)}: ${words.map(word => String(word).padStart(6)).join(" ")}${" ".repeat(7 * (8 - words.length))}  ${text}`);
+        }
+    }
+
+    /**
+     * Checks and runs input: definitions are added to the session and anything else is run.
+     *
+     * @param code The input
+     * @param file The file the input was read from, if any
+     */
+    private async submit(code: string, file?: string): Promise<void> {
+        let first = tokenize(code).find(token => token.type !== "newline");
+        try {
+            if (first?.type === "keyword" && (first.value === "var" || first.value === "fun")) this.define(code, file);
+            else await this.execute(code);
+        }
+        catch (error) {
+            this.print(`error: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Prints the errors in a program, at the position in the input they came from.
+     *
+     * @param program The program that was checked
+     * @param file The file the input was read from, if any
+     *
+     * @returns whether or not the program has errors.
+     */
+    private reportErrors(program: ProgramText, file?: string): boolean {
+        let errors = findProblems(program.code).filter(problem => problem.severity === Severity.Error);
+        errors.forEach(error => {
+            let line = program.origins[error.range.start.line];
+            let position = line === undefined ? "" : `${file ? `${file}:` : ""}${line + 1}:${error.range.start.character + 1}: `;
+            this.print(`${position}error: ${error.message}`);
+        });
+        return errors.length > 0;
+    }
+
+    /**
+     * Adds the code of the functions defined so far to a program.
+     *
+     * @param program The program to add to
+     * @param except The names of the functions to leave out
+     */
+    private addFunctions(program: ProgramText, except: Set<string> = new Set()): void {
+        this.functions.forEach((text, name) => {
+            if (!except.has(name)) program.add(text);
+        });
+    }
+
+    /**
+     * Adds global variables and functions to the session. Definitions replace earlier functions with the same name, and
+     * variables that already exist keep their value.
+     *
+     * @param code The input, made of variable declarations followed by function definitions
+     * @param file The file the input was read from, if any
+     */
+    private define(code: string, file?: string): void {
+        let input = new Parser(tokenize(code + "\n")).parse() as ProgramNode;
+        let variables = new Set<string>();
+        let varList = input.varList;
+        while (varList) {
+            let id: IdListNode | undefined = varList.idList;
+            while (id) {
+                variables.add(id.value);
+                id = id.next;
+            }
+            varList = varList.next;
+        }
+        let functions = new Set<string>();
+        let func = input.funList;
+        while (func) {
+            if (func.name) functions.add(func.name);
+            func = func.next;
+        }
+
+        // Variable declarations have to come before every function, so the input is split in two
+        let lines = code.split("\n");
+        let split = tokenize(code).find(token => token.type === "keyword" && token.value === "fun")?.line ?? lines.length;
+
+        let program = new ProgramText();
+        let globals = this.globals.filter(name => !variables.has(name));
+        if (globals.length) program.add(`var ${globals.join(", ")}`);
+        if (split > 0) program.add(lines.slice(0, split).join("\n"), 0);
+        this.addFunctions(program, functions);
+        if (split < lines.length) program.add(lines.slice(split).join("\n"), split);
+        if (this.reportErrors(program, file)) return;
+
+        // Only load the new definitions, which are at the end of each list
+        let node = new Parser(tokenize(program.code)).parse() as ProgramNode;
+        let newVarList = node.varList;
+        while (newVarList && program.origins[newVarList.idList.token.line] === undefined) newVarList = newVarList.next;
+        let newFunList = node.funList;
+        while (newFunList && program.origins[newFunList.token!.line] === undefined) newFunList = newFunList.next;
+        this.interpreter.load({ type: "program", varList: newVarList, funList: newFunList } as ASTNode);
+
+        variables.forEach(name => {
+            if (!this.globals.includes(name)) this.globals.push(name);
+        });
+        for (let func = newFunList; func; func = func.next) {
+            this.functions.set(func.name!, program.lines.slice(func.startToken!.line, func.endToken!.line + 1).join("\n"));
+        }
+    }
+
+    /**
+     * Runs statements, or evaluates an expression and prints its value.
+     *
+     * @param code The input
+     */
+    private async execute(code: string): Promise<void> {
+        let program = this.wrap(code);
+        if (this.reportErrors(program)) return;
+
+        // A single expression is returned from the wrapper so that its value can be printed
+        let { program: node, declarations, types } = inferTypes(program.code);
+        let wrapper = this.wrapperOf(node as ProgramNode);
+        let list = (wrapper.body as ASTNode & { statementList?: StatementListNode } | undefined)?.statementList;
+        let expression = list && !list.next && list.statement.type === "expression statement" ? (list.statement as ASTNode & { expression: ArithmeticNode }).expression : undefined;
+        let printed = false;
+        if (expression && hasValue(expression, declarations, types)) {
+            wrapper = this.wrapperOf(new Parser(tokenize(this.wrap(`return ${code}`).code)).parse() as ProgramNode);
+            printed = true;
+        }
+
+        this.interpreter.load({ type: "program", funList: wrapper } as ASTNode);
+        let n = this.interpreter.functions.findIndex(func => func.node.name === wrapperName);
+
+        this.running = true;
+        this.interrupted = false;
+        try {
+            let value = await this.interpreter.invoke(n);
+            if (this.interrupted) this.print("Interrupted");
+            else if (printed) this.print(String(value));
+        }
+        finally {
+            this.running = false;
+            this.interpreter.resume();
+        }
+    }
+
+    /**
+     * Puts input inside the function statements are run in, after the definitions of the session.
+     *
+     * @param code The input
+     *
+     * @returns The program.
+     */
+    private wrap(code: string): ProgramText {
+        let program = new ProgramText();
+        if (this.globals.length) program.add(`var ${this.globals.join(", ")}`);
+        this.addFunctions(program);
+        program.add(`fun ${wrapperName}() {`);
+        program.add(code, 0);
+        program.add("}");
+        return program;
+    }
+
+    /**
+     * Finds the function statements are run in, which is the last function of a wrapped program.
+     *
+     * @param program The program node
+     *
+     * @returns The function declaration.
+     */
+    private wrapperOf(program: ProgramNode): FunDeclNode {
+        let func = program.funList!;
+        while (func.next) func = func.next;
+        return func;
+    }
+}
+
+new Repl().start().catch(error => {
+    console.error(`tranq-repl: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,133 @@
+import * as vscode from "vscode";
+import MTVM, { Tape } from "../lib/MTVM";
+import { HeadlessGui } from "../lib/gui";
+import { Host } from "../lib/host";
+import Compiler from "./compiler";
+import tokenize from "./lexer";
+import Parser, { TokenError } from "./parser";
+
+/**
+ * A host that writes program output to an output channel and asks for input with an input box.
+ */
+class OutputChannelHost implements Host {
+
+    gui = new HeadlessGui();
+
+    private cancellation = new vscode.CancellationTokenSource();
+
+    /**
+     * Creates a new output channel host.
+     *
+     * @param channel The channel to write output to
+     * @param onCancel Called when the user dismisses an input box instead of entering a value
+     */
+    constructor(private readonly channel: vscode.OutputChannel, private readonly onCancel: () => void) { }
+
+    write(text: string): void {
+        if (this.cancellation.token.isCancellationRequested) return;
+        this.channel.append(text);
+    }
+
+    async readLine(prompt: string): Promise<string> {
+        this.channel.append(prompt);
+        let line = await vscode.window.showInputBox({ prompt: prompt || "Input", ignoreFocusOut: true }, this.cancellation.token);
+        if (line === undefined) {
+            this.onCancel();
+            return "";
+        }
+        this.channel.appendLine(line);
+        return line;
+    }
+
+    /**
+     * Closes any input box that is waiting for the user.
+     */
+    cancel(): void {
+        this.cancellation.cancel();
+    }
+}
+
+/**
+ * The program that is currently running, if any.
+ */
+let running: { vm: MTVM, host: OutputChannelHost } | null = null;
+
+/**
+ * Registers the commands that run and stop the Tranquility file in the active editor.
+ *
+ * @param context The extension context
+ */
+export function registerRunCommands(context: vscode.ExtensionContext): void {
+    let channel = vscode.window.createOutputChannel("Tranquility");
+    context.subscriptions.push(channel);
+    context.subscriptions.push(
+        vscode.commands.registerCommand("tranquility.run", () => runActiveDocument(channel)),
+        vscode.commands.registerCommand("tranquility.stop", () => stopProgram(channel))
+    );
+}
+
+/**
+ * Compiles Tranquility source code into a tape.
+ *
+ * @param code The source code to compile
+ *
+ * @returns The compiled tape.
+ */
+export function compileSource(code: string): Tape {
+    let parser = new Parser(tokenize(code));
+    let AST = parser.parse();
+    if (parser.errors.length) throw parser.errors[0];
+    return new Compiler(AST).compile();
+}
+
+async function runActiveDocument(channel: vscode.OutputChannel): Promise<void> {
+    let document = vscode.window.activeTextEditor?.document;
+    if (!document || document.languageId !== "tranquility") {
+        vscode.window.showErrorMessage("Open a Tranquility file to run it.");
+        return;
+    }
+    if (running) stopProgram(channel);
+
+    let tape: Tape;
+    try {
+        tape = compileSource(document.getText());
+    }
+    catch (error) {
+        if (error instanceof TokenError) vscode.window.showErrorMessage(`Cannot run the program: ${error.message} (line ${error.token.line + 1})`);
+        else vscode.window.showErrorMessage(`Cannot run the program: ${error}`);
+        return;
+    }
+
+    channel.clear();
+    channel.show(true);
+
+    let host = new OutputChannelHost(channel, () => stopProgram(channel));
+    let settings = vscode.workspace.getConfiguration("tranquility.run");
+    let vm = new MTVM(tape, host, { trace: settings.get("trace", false), profile: settings.get("profile", false), log: text => channel.append(text) });
+    running = { vm: vm, host: host };
+    vscode.commands.executeCommand("setContext", "tranquility.running", true);
+
+    try {
+        await vm.run();
+
+        // Timers and GUI widgets call back into the program after it halts, so it can be stopped until they are gone
+        await vm.whenSettled();
+    }
+    catch (error) {
+        channel.appendLine(`\n${error}`);
+    }
+
+    if (running?.vm === vm) {
+        running = null;
+        vscode.commands.executeCommand("setContext", "tranquility.running", false);
+    }
+}
+
+function stopProgram(channel: vscode.OutputChannel): void {
+    if (!running) return;
+    running.vm.stop();
+    running.host.cancel();
+    running = null;
+    channel.appendLine("\nProgram stopped.");
+    vscode.commands.executeCommand("setContext", "tranquility.running", false);
+}
@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+import { fileURLToPath } from "url";
+import { CodeActionKind, createConnection, Diagnostic, DiagnosticSeverity, DiagnosticTag, FileChangeType, ProposedFeatures, TextDocuments, TextDocumentSyncKind } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { provideCompletions } from "./completion";
+import { findProblems, Problem } from "./diagnostics";
+import { provideFormattingEdits } from "./formatter";
+import { provideInlayHints } from "./hints";
+import { provideHover } from "./hover";
+import { prepareRename, provideDefinition, provideReferences, provideRenameEdits } from "./navigation";
+import { Severity } from "./parser";
+import { commandEdit, provideCodeActions, quickFixCommands } from "./quickfixes";
+import { provideSignatureHelp } from "./signatures";
+import { documentSymbols, WorkspaceSymbolIndex } from "./symbols";
+
+/**
+ * The Tranquility language server. It speaks the Language Server Protocol over stdio (or whichever transport it is started
+ * with), so any editor with an LSP client can use it.
+ */
+let connection = createConnection(ProposedFeatures.all);
+let documents = new TextDocuments(TextDocument);
+let symbolIndex: WorkspaceSymbolIndex;
+
+/**
+ * Converts a problem found in a program to a diagnostic.
+ *
+ * @param problem The problem
+ *
+ * @returns The diagnostic.
+ */
+function toDiagnostic(problem: Problem): Diagnostic {
+    let start: string;
+    switch (problem.severity) {
+        case Severity.Error: start = "❌ Error: "; break;
+        case Severity.Warning: start = "⚠️ Warning: "; break;
+        case Severity.Information: start = "🔵 Info: "; break;
+        case Severity.Hint: start = "❔ Hint: "; break;
+    }
+    let diagnostic = Diagnostic.create(problem.range, start + problem.message, problem.severity as DiagnosticSeverity);
+    if (problem.unnecessary) diagnostic.tags = [DiagnosticTag.Unnecessary];
+    return diagnostic;
+}
+
+/**
+ * Checks a document and sends its problems to the editor.
+ *
+ * @param document The document to check
+ */
+function refreshDiagnostics(document: TextDocument): void {
+    if (!/\.t$/i.test(document.uri)) return;
+    connection.sendDiagnostics({ uri: document.uri, diagnostics: findProblems(document.getText()).map(toDiagnostic) });
+}
+
+connection.onInitialize(params => {
+    let roots = (params.workspaceFolders ?? []).map(folder => fileURLToPath(folder.uri));
+    if (!roots.length && params.rootUri) roots.push(fileURLToPath(params.rootUri));
+    symbolIndex = new WorkspaceSymbolIndex(roots, documents);
+
+    return {
+        capabilities: {
+            textDocumentSync: TextDocumentSyncKind.Incremental,
+            completionProvider: {},
+            signatureHelpProvider: { triggerCharacters: ["(", ","] },
+            hoverProvider: true,
+            definitionProvider: true,
+            referencesProvider: true,
+            renameProvider: { prepareProvider: true },
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            documentFormattingProvider: true,
+            codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+            executeCommandProvider: { commands: Object.values(quickFixCommands) },
+            inlayHintProvider: true
+        }
+    };
+});
+
+documents.onDidChangeContent(change => {
+    refreshDiagnostics(change.document);
+
+    // A document that cannot be indexed, like an unsaved one without a file path, keeps the symbols it had
+    try {
+        symbolIndex.index(change.document.uri, change.document.getText());
+    }
+    catch (error) {
+        connection.console.error(`Cannot index ${change.document.uri}: ${error}`);
+    }
+});
+documents.onDidClose(event => connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] }));
+
+connection.onDidChangeWatchedFiles(params => {
+    params.changes.forEach(change => {
+        if (change.type === FileChangeType.Deleted) symbolIndex.remove(change.uri);
+        else symbolIndex.indexFile(change.uri);
+    });
+});
+
+connection.onCompletion(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? provideCompletions(document, params.position) : null;
+});
+
+connection.onSignatureHelp(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? provideSignatureHelp(document, params.position) : null;
+});
+
+connection.onHover(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? provideHover(document, params.position) : null;
+});
+
+connection.onDefinition(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? provideDefinition(document, params.position) : null;
+});
+
+connection.onReferences(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? provideReferences(document, params.position, params.context.includeDeclaration) : null;
+});
+
+connection.onPrepareRename(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? prepareRename(document, params.position) : null;
+});
+
+connection.onRenameRequest(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? provideRenameEdits(document, params.position, params.newName) : null;
+});
+
+connection.onDocumentSymbol(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? documentSymbols(document.getText()) : null;
+});
+
+connection.onWorkspaceSymbol(params => symbolIndex.search(params.query));
+
+connection.onDocumentFormatting(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? provideFormattingEdits(document, params.options) : null;
+});
+
+connection.onCodeAction(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? provideCodeActions(document, params.context.diagnostics) : null;
+});
+
+connection.onExecuteCommand(async params => {
+    let [uri, ...args] = params.arguments ?? [];
+    let document = documents.get(uri);
+    let edit = document && commandEdit(document, params.command, args);
+    if (edit) await connection.workspace.applyEdit(edit);
+});
+
+connection.languages.inlayHint.on(params => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? provideInlayHints(document, params.range) : null;
+});
+
+documents.listen(connection);
+connection.listen();
@@ -0,0 +1,91 @@
+import { MarkupKind, ParameterInformation, Position, SignatureHelp, SignatureInformation } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { builtInFunctions } from "./builtins";
+import { findDocumentation } from "./hover";
+import tokenize, { Token } from "./lexer";
+import Parser from "./parser";
+
+/**
+ * Finds the function call whose argument list contains a position, by walking backwards through the tokens on the line.
+ *
+ * @param tokens The tokens of the document
+ * @param position The position of the cursor
+ *
+ * @returns The name token of the called function and the index of the argument at the position, or `undefined` if the
+ * position is not inside an argument list.
+ */
+function findCall(tokens: Token[], position: Position): { name: Token, argument: number } | undefined {
+    let before = tokens.filter(token => token.line === position.line && token.column < position.character);
+    let depth = 0;
+    let argument = 0;
+    for (let i = before.length - 1; i >= 0; i--) {
+        let token = before[i];
+        if (token.type === "right parentheses") depth++;
+        else if (token.type === "left parentheses") {
+            if (depth === 0) {
+                let name = before[i - 1];
+                if (name?.type === "identifier") return { name: name, argument: argument };
+                argument = 0;
+            }
+            else depth--;
+        }
+        else if (token.type === "comma" && depth === 0) argument++;
+    }
+    return undefined;
+}
+
+/**
+ * Creates a signature with the given label, marking where each parameter appears in it.
+ *
+ * @param label The signature, such as `fun f(a, b)`
+ * @param parameters The names of the parameters, in order
+ * @param documentation The description of the function
+ *
+ * @returns The signature information.
+ */
+function signature(label: string, parameters: string[], documentation?: string): SignatureInformation {
+    let information = SignatureInformation.create(label);
+    if (documentation) information.documentation = { kind: MarkupKind.Markdown, value: documentation };
+    let start = label.indexOf("(");
+    information.parameters = parameters.map(parameter => {
+        start = label.indexOf(parameter, start);
+        let information = ParameterInformation.create([start, start + parameter.length]);
+        start += parameter.length;
+        return information;
+    });
+    return information;
+}
+
+/**
+ * Shows the signature of the function being called at the cursor, with the current argument highlighted.
+ *
+ * @param document The document being edited
+ * @param position The position of the cursor
+ *
+ * @returns The signature help, or `null` if the cursor is not in the arguments of a known function.
+ */
+export function provideSignatureHelp(document: TextDocument, position: Position): SignatureHelp | null {
+    let tokens = tokenize(document.getText());
+    let call = findCall(tokens, position);
+    if (!call) return null;
+
+    let signatures: SignatureInformation[] = [];
+    let parser = new Parser(tokens);
+    parser.parse();
+    let declaration = parser.declarationsAt(position.line, position.character).declarations.find(declaration => declaration.kind === "function" && declaration.name === call!.name.value);
+    let builtInFunction = builtInFunctions.find(func => func.name === call!.name.value);
+    if (declaration) {
+        let parameters = declaration.parameters!.map(parameter => parameter.name);
+        signatures.push(signature(`fun ${declaration.name}(${parameters.join(", ")})`, parameters, findDocumentation(document.getText(), declaration)));
+    }
+    else if (builtInFunction) {
+        // The signature is the code block at the start of the description
+        let [, label, documentation] = /^\s*```\n([^\n`]*)\n?```\n?([^]*)$/.exec(builtInFunction.description)!;
+        label = label.trim();
+        if (!label.startsWith("fun ")) label = "fun " + label;
+        signatures.push(signature(label, Object.keys(builtInFunction.parameters), documentation));
+    }
+    else return null;
+
+    return { signatures: signatures, activeSignature: 0, activeParameter: call.argument };
+}
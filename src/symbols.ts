@@ -0,0 +1,177 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { DocumentSymbol, Range, SymbolInformation, SymbolKind, TextDocuments } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import tokenize, { Token, tokenRange } from "./lexer";
+import Parser, { ASTNode, FunDeclNode, IdListNode } from "./parser";
+
+type VarListNode = ASTNode & { idList: IdListNode, next?: VarListNode };
+
+/**
+ * Creates a symbol for each variable in a variable list.
+ *
+ * @param node The variable list node
+ * @param detail The detail shown next to each variable
+ *
+ * @returns The symbols.
+ */
+function variableSymbols(node: VarListNode | undefined, detail: string): DocumentSymbol[] {
+    let symbols: DocumentSymbol[] = [];
+    while (node) {
+        let id: IdListNode | undefined = node.idList;
+        while (id) {
+            symbols.push(DocumentSymbol.create(id.value, detail, SymbolKind.Variable, tokenRange(id.token), tokenRange(id.token)));
+            id = id.next;
+        }
+        node = node.next;
+    }
+    return symbols;
+}
+
+/**
+ * Creates the symbol for a function declaration, with its parameters and local variables as children.
+ *
+ * @param node The function declaration node
+ *
+ * @returns The symbol.
+ */
+function functionSymbol(node: FunDeclNode): DocumentSymbol {
+    let parameters: IdListNode[] = [];
+    let param = node.arguments;
+    while (param) {
+        parameters.push(param);
+        param = param.next;
+    }
+
+    let start: Token = node.startToken ?? node.token!;
+    let end: Token = node.endToken ?? node.token!;
+    let range = Range.create(start.line, start.column, end.line, end.column + end.value.length);
+    return DocumentSymbol.create(node.name!, `(${parameters.map(param => param.value).join(", ")})`, SymbolKind.Function, range, tokenRange(node.token!), [
+        ...parameters.map(param => DocumentSymbol.create(param.value, "parameter", SymbolKind.Variable, tokenRange(param.token), tokenRange(param.token))),
+        ...variableSymbols((node.body as ASTNode & { varList?: VarListNode } | undefined)?.varList, "local")
+    ]);
+}
+
+/**
+ * Parses Tranquility source code and lists its global variables and functions.
+ *
+ * @param code The source code
+ *
+ * @returns The symbols, with the parameters and local variables of each function as its children.
+ */
+export function documentSymbols(code: string): DocumentSymbol[] {
+    let program = new Parser(tokenize(code)).parse() as ASTNode & { varList?: VarListNode, funList?: FunDeclNode };
+    let symbols = variableSymbols(program.varList, "global");
+    let func = program.funList;
+    while (func) {
+        if (func.token) symbols.push(functionSymbol(func));
+        func = func.next;
+    }
+    return symbols;
+}
+
+/**
+ * Returns whether or not the characters of a query appear in a name in order, ignoring case.
+ *
+ * @param name The name to search
+ * @param query The query typed by the user
+ *
+ * @returns whether or not the name matches.
+ */
+function matchesQuery(name: string, query: string): boolean {
+    let index = 0;
+    for (let char of name.toLowerCase()) {
+        if (char === query[index]?.toLowerCase()) index++;
+    }
+    return index === query.length;
+}
+
+/**
+ * An index of the functions and global variables in every Tranquility file in the workspace. Files are indexed when the
+ * index is first searched, and kept up to date as they are created, changed, edited and deleted.
+ */
+export class WorkspaceSymbolIndex {
+
+    private readonly symbols = new Map<string, SymbolInformation[]>();
+    private ready: Promise<void> | null = null;
+
+    /**
+     * Creates a new WorkspaceSymbolIndex
+     *
+     * @param roots The paths of the workspace folders to index
+     * @param documents The open documents, whose edits may not be saved yet
+     */
+    constructor(private readonly roots: string[], private readonly documents: TextDocuments<TextDocument>) { }
+
+    /**
+     * Finds the functions and global variables whose names match a query.
+     *
+     * @param query The query typed by the user
+     *
+     * @returns The matching symbols.
+     */
+    async search(query: string): Promise<SymbolInformation[]> {
+        if (!this.ready) this.ready = this.indexWorkspace();
+        await this.ready;
+        return [...this.symbols.values()].flat().filter(symbol => matchesQuery(symbol.name, query));
+    }
+
+    /**
+     * Indexes a file, reading it from disk unless it is open.
+     *
+     * @param uri The URI of the file
+     */
+    async indexFile(uri: string): Promise<void> {
+        let document = this.documents.get(uri);
+        try {
+            this.index(uri, document ? document.getText() : await fs.readFile(fileURLToPath(uri), "utf8"));
+        }
+        catch (error) {
+            this.remove(uri);
+        }
+    }
+
+    /**
+     * Indexes the contents of a file.
+     *
+     * @param uri The URI of the file
+     * @param code The source code in the file
+     */
+    index(uri: string, code: string): void {
+        let container = path.basename(fileURLToPath(uri));
+        let symbols = documentSymbols(code).map(symbol => SymbolInformation.create(symbol.name, symbol.kind, symbol.range, uri, container));
+        this.symbols.set(uri, symbols);
+    }
+
+    /**
+     * Removes a deleted file from the index.
+     *
+     * @param uri The URI of the file
+     */
+    remove(uri: string): void {
+        this.symbols.delete(uri);
+    }
+
+    private async indexWorkspace(): Promise<void> {
+        let files = (await Promise.all(this.roots.map(root => findFiles(root)))).flat();
+        await Promise.all(files.map(file => this.indexFile(pathToFileURL(file).toString())));
+    }
+}
+
+/**
+ * Finds the Tranquility files in a directory and its subdirectories, skipping hidden directories and `node_modules`.
+ *
+ * @param directory The path of the directory
+ *
+ * @returns The paths of the files.
+ */
+async function findFiles(directory: string): Promise<string[]> {
+    let entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+    let files = await Promise.all(entries.map(async entry => {
+        let file = path.join(directory, entry.name);
+        if (entry.isDirectory()) return entry.name.startsWith(".") || entry.name === "node_modules" ? [] : findFiles(file);
+        return /\.(t|tranq)$/i.test(entry.name) ? [file] : [];
+    }));
+    return files.flat();
+}
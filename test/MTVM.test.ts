@@ -0,0 +1,137 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import MTVM, { Opcode, Tape } from "../lib/MTVM";
+import { HeadlessGui } from "../lib/gui";
+import { ScriptedHost } from "../lib/host";
+import Compiler from "../src/compiler";
+import tokenize from "../src/lexer";
+import Parser from "../src/parser";
+
+/**
+ * Creates a tape whose entry function runs the given code.
+ *
+ * @param code The body of the entry function
+ *
+ * @returns The tape.
+ */
+function tapeOf(code: (number | number[])[]): Tape {
+    return [[0, 1], [], ["init", 0, 0, 0, code]];
+}
+
+describe("MTVM", () => {
+    it("runs a tape and writes through its host", async () => {
+        let host = new ScriptedHost();
+        await new MTVM(tapeOf([Opcode.push, 6, Opcode.push, 7, Opcode.mul, Opcode.call, -101, Opcode.pop]), host).run();
+        assert.strictEqual(host.output, "42halt\n");
+    });
+
+    it("keeps the memory of each instance separate", async () => {
+        let tape = tapeOf([Opcode.push, 5, Opcode.push, 9, Opcode.store]);
+        let first = new MTVM(tape, new ScriptedHost());
+        let second = new MTVM(tape, new ScriptedHost());
+        await first.run();
+        assert.strictEqual(first.memory[5], 9);
+        assert.strictEqual(second.memory[5], 0);
+    });
+
+    it("steps one instruction at a time", async () => {
+        let vm = new MTVM(tapeOf([Opcode.push, 1, Opcode.pop]), new ScriptedHost());
+        assert.strictEqual(await vm.step(), true);
+        assert.strictEqual(vm.memory[vm.sp + 1], 1);
+        while (await vm.step());
+        assert.strictEqual(vm.halted, true);
+    });
+
+    it("throws on an unknown opcode instead of logging it", async () => {
+        let vm = new MTVM(tapeOf([99]), new ScriptedHost());
+        await assert.rejects(vm.run(), /Unknown opcode 99/);
+    });
+
+    it("throws on a call to a function that does not exist", async () => {
+        await assert.rejects(new MTVM(tapeOf([Opcode.call, -999]), new ScriptedHost()).run(), /Invalid function call -999/);
+        await assert.rejects(new MTVM(tapeOf([Opcode.call, 4]), new ScriptedHost()).run(), /Invalid function call 4/);
+    });
+
+    it("reports errors in GUI callbacks through the host", async () => {
+        let code = [
+            "fun fail() {",
+            "    setlabel(5, \"x\")",
+            "}",
+            "",
+            "fun init() {",
+            "    button(\"go\", fail)",
+            "}",
+            ""
+        ].join("\n");
+        let gui = new HeadlessGui();
+        let host = new ScriptedHost([], gui);
+        await new MTVM(new Compiler(new Parser(tokenize(code)).parse()).compile(), host).run();
+        assert.strictEqual(await gui.click(0), 0);
+        assert.match(host.output, /There is no label with the identifier 5/);
+    });
+
+    it("settles once its timers have fired", async () => {
+        let code = [
+            "fun tick() {",
+            "    sprint(\"tick\")",
+            "}",
+            "",
+            "fun init() {",
+            "    timer(1, tick)",
+            "}",
+            ""
+        ].join("\n");
+        let host = new ScriptedHost();
+        let vm = new MTVM(new Compiler(new Parser(tokenize(code)).parse()).compile(), host);
+        await vm.run();
+        assert.strictEqual(vm.settled, false);
+        await vm.whenSettled();
+        assert.strictEqual(vm.settled, true);
+        assert.strictEqual(host.output, "halt\ntick");
+    });
+
+    it("only settles a program with a GUI when it is stopped", async () => {
+        let code = "fun nothing() {\n}\n\nfun init() {\n    button(\"go\", nothing)\n}\n";
+        let vm = new MTVM(new Compiler(new Parser(tokenize(code)).parse()).compile(), new ScriptedHost([], new HeadlessGui()));
+        await vm.run();
+        let settled = false;
+        let waiting = vm.whenSettled().then(() => settled = true);
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(settled, false);
+        vm.stop();
+        await waiting;
+        assert.strictEqual(settled, true);
+    });
+
+    it("traces each instruction with the registers and the top of the stack", async () => {
+        let log = "";
+        let tape: Tape = [[0, 1], [], ["init", 0, 0, 0, [Opcode.push, 6, Opcode.pop], [1, 1, 2]]];
+        await new MTVM(tape, new ScriptedHost(), { trace: true, log: text => log += text }).run();
+        assert.deepStrictEqual(log.split("\n"), [
+            "init:2           pc=0     push 6       sp=65534 fp=65535 top=65535",
+            "init:3           pc=2     pop          sp=65533 fp=65535 top=6",
+            ""
+        ]);
+    });
+
+    it("counts the instructions and calls of each function and line", async () => {
+        let log = "";
+        let tape: Tape = [[1, 1], [], ["double", 0, 1, 0, [Opcode.push, 2, Opcode.mul], [4, 4, 4]], ["init", 0, 0, 0, [Opcode.push, 3, Opcode.call, 0, Opcode.pop], [8, 8, 8, 8, 9]]];
+        let vm = new MTVM(tape, new ScriptedHost(), { profile: true, log: text => log += text });
+        await vm.run();
+        assert.deepStrictEqual(vm.profile.functions, [2, 3]);
+        assert.deepStrictEqual(vm.profile.calls, [1, 1]);
+        assert.match(log, /Profile: 5 instructions/);
+        assert.match(log, /\ninit +1 +3 +60\.0%\ndouble +1 +2 +40\.0%\n/);
+        assert.match(log, /\n +9 +2 +40\.0%\n +5 +2 +40\.0%\n +10 +1 +20\.0%\n/);
+    });
+
+    it("names the functions of tapes that only number them", async () => {
+        let log = "";
+        let tape = [[1, 1], [], [0, 0, 0, 0, [Opcode.push, 1]], [1, 0, 0, 0, [Opcode.call, 0, Opcode.pop]]] as unknown as Tape;
+        await new MTVM(tape, new ScriptedHost(), { trace: true, profile: true, log: text => log += text }).run();
+        assert.match(log, /^function 1 +pc=0 +call 0 /m);
+        assert.match(log, /^function 0 +pc=0 +push 1 /m);
+        assert.match(log, /\nfunction 1 +1 +2 +66\.7%\nfunction 0 +1 +1 +33\.3%\n/);
+    });
+});
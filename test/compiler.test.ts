@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import MTVM, { FunctionEntry, Opcode } from "../lib/MTVM";
+import { ScriptedHost } from "../lib/host";
+import Compiler from "../src/compiler";
+import tokenize from "../src/lexer";
+import Parser, { TokenError } from "../src/parser";
+
+/**
+ * Compiles a program and runs it on MTVM.
+ *
+ * @param code The source code of the program
+ * @param input The lines the program reads
+ *
+ * @returns Everything the program wrote.
+ */
+async function run(code: string, input: string[] = []): Promise<string> {
+    let host = new ScriptedHost(input);
+    await new MTVM(new Compiler(new Parser(tokenize(code)).parse()).compile(), host).run();
+    return host.output;
+}
+
+describe("Compiler", () => {
+    it("puts the entry function and the end of the data segment first", () => {
+        let tape = new Compiler(new Parser(tokenize("var a, b\n\nfun f() {\n}\n\nfun init() {\n    sprint(\"hi\")\n}\n")).parse()).compile();
+        assert.deepStrictEqual(tape[0], [1, 6]);
+        assert.deepStrictEqual(tape[1], [[1, 0], [2, 0], [3, 104], [4, 105], [5, 0]]);
+        assert.deepStrictEqual((tape[3] as FunctionEntry).slice(0, 4), ["init", 5, 0, 0]);
+        assert.deepStrictEqual((tape[3] as FunctionEntry)[4], [Opcode.push, 3, Opcode.call, -102, Opcode.pop, Opcode.push, 0]);
+    });
+
+    it("compiles loops, conditions and recursion", async () => {
+        let code = [
+            "fun fact(n) {",
+            "    if .n < 2 {",
+            "        return 1",
+            "    }",
+            "    return .n * fact(.n - 1)",
+            "}",
+            "",
+            "fun init() {",
+            "    var i",
+            "    i : 1",
+            "    loop {",
+            "        iprint(fact(.i))",
+            "        nl()",
+            "        i : .i + 1",
+            "        until .i > 5",
+            "    }",
+            "}",
+            ""
+        ].join("\n");
+        assert.strictEqual(await run(code), "1\n2\n6\n24\n120\nhalt\n");
+    });
+
+    it("stores strings and reads input", async () => {
+        let code = [
+            "var buf",
+            "",
+            "fun init() {",
+            "    buf : alloc(20)",
+            "    sread(.buf, \"name? \")",
+            "    sprint(\"hello \")",
+            "    sprint(.buf)",
+            "    nl()",
+            "    iprint(iread(\"n? \") * 2)",
+            "}",
+            ""
+        ].join("\n");
+        assert.strictEqual(await run(code, ["bob", "21"]), "name? hello bob\nn? 42halt\n");
+    });
+
+    it("requires an init function", () => {
+        assert.throws(() => new Compiler(new Parser(tokenize("fun f() {\n}\n")).parse()).compile(), /init/);
+    });
+
+    it("reports undefined variables", () => {
+        let program = new Parser(tokenize("fun init() {\n    x : 1\n}\n")).parse();
+        assert.throws(() => new Compiler(program).compile(), (error: unknown) => error instanceof TokenError && /Variable "x" is undefined/.test(error.message));
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { CompletionItem, Position } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { provideCompletions } from "../src/completion";
+
+/**
+ * Completes at a position in some source code.
+ *
+ * @param code The source code
+ * @param line The line of the cursor
+ * @param character The column of the cursor
+ *
+ * @returns The completion items, or `null` if nothing is completed there.
+ */
+function complete(code: string, line: number, character: number): CompletionItem[] | null {
+    return provideCompletions(TextDocument.create("file:///test.t", "tranquility", 1, code), Position.create(line, character));
+}
+
+let code = [
+    "var count",
+    "",
+    "# Adds two numbers",
+    "fun add(a, b) {",
+    "    return .a + .b",
+    "}",
+    "",
+    "fun init() {",
+    "    var local",
+    "    ",
+    "}",
+    ""
+].join("\n");
+
+describe("provideCompletions", () => {
+    it("offers declarations at the top level", () => {
+        assert.deepStrictEqual(complete(code, 6, 0)!.map(item => item.label), ["fun", "var"]);
+    });
+
+    it("offers statements, names in scope and built-in functions inside functions", () => {
+        let labels = complete(code, 9, 4)!.map(item => item.label);
+        assert.deepStrictEqual(labels.slice(0, 8), ["var", "if", "if/else", "else", "loop", "until", "return", "local"]);
+        assert.ok(labels.includes("count") && labels.includes("add") && labels.includes("iprint"));
+        assert.ok(!labels.includes("a"));
+    });
+
+    it("completes user-defined functions with their parameters and documentation", () => {
+        let add = complete(code, 9, 4)!.find(item => item.label === "add")!;
+        assert.strictEqual(add.detail, "fun add(a, b)");
+        assert.strictEqual(add.insertText, "add(${1:a}, ${2:b})");
+        assert.match(JSON.stringify(add.documentation), /Adds two numbers/);
+    });
+
+    it("offers nothing in strings, comments and new names", () => {
+        assert.strictEqual(complete("fun init() {\n    sprint(\"a\n}\n", 1, 13), null);
+        assert.strictEqual(complete("fun init() {\n    # a\n}\n", 1, 7), null);
+        assert.strictEqual(complete("fun init() {\n    var a, \n}\n", 1, 11), null);
+    });
+});
@@ -0,0 +1,190 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+import { DebugProtocol } from "@vscode/debugprotocol";
+import TranquilityDebugSession from "../src/debugSession";
+
+/**
+ * Drives a debug session the way an editor would, one request at a time.
+ */
+class DebugClient {
+
+    private session: TranquilityDebugSession;
+    private messages: DebugProtocol.ProtocolMessage[] = [];
+    private waiting: (() => void)[] = [];
+    private seq = 1;
+
+    /**
+     * Creates a new debug client and starts a session.
+     *
+     * @param input The lines the program reads
+     */
+    constructor(input: string[] = []) {
+        this.session = new TranquilityDebugSession(() => Promise.resolve(input.shift()));
+        this.session.onDidSendMessage(message => {
+            this.messages.push(message as DebugProtocol.ProtocolMessage);
+            this.waiting.splice(0).forEach(resolve => resolve());
+        });
+    }
+
+    /**
+     * Sends a request without waiting for its response.
+     *
+     * @returns The sequence number of the request.
+     */
+    send(command: string, args: unknown = {}): number {
+        let seq = this.seq++;
+        this.session.handleMessage({ seq: seq, type: "request", command: command, arguments: args } as DebugProtocol.Request);
+        return seq;
+    }
+
+    /**
+     * Sends a request and waits for its response.
+     */
+    async request(command: string, args: unknown = {}): Promise<DebugProtocol.Response> {
+        let seq = this.send(command, args);
+        return this.next(message => message.type === "response" && (message as DebugProtocol.Response).request_seq === seq) as Promise<DebugProtocol.Response>;
+    }
+
+    /**
+     * Waits for an event the session sends.
+     */
+    async event(name: string): Promise<DebugProtocol.Event> {
+        return this.next(message => message.type === "event" && (message as DebugProtocol.Event).event === name) as Promise<DebugProtocol.Event>;
+    }
+
+    /**
+     * Everything the program wrote to the debug console.
+     */
+    get output(): string {
+        return this.messages.filter(message => (message as DebugProtocol.Event).event === "output").map(message => (message as DebugProtocol.OutputEvent).body.output).join("");
+    }
+
+    private async next(matches: (message: DebugProtocol.ProtocolMessage) => boolean): Promise<DebugProtocol.ProtocolMessage> {
+        for (;;) {
+            let index = this.messages.findIndex(matches);
+            if (index !== -1) return this.messages.splice(index, 1)[0];
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        }
+    }
+}
+
+/**
+ * Writes a program to a temporary file.
+ *
+ * @param code The source code of the program
+ *
+ * @returns The path of the file.
+ */
+function programFile(code: string): string {
+    let directory = fs.mkdtempSync(path.join(os.tmpdir(), "tranquility-"));
+    let file = path.join(directory, "program.t");
+    fs.writeFileSync(file, code);
+    return file;
+}
+
+/**
+ * Starts debugging a program, with breakpoints on the given one-based lines.
+ */
+async function launch(client: DebugClient, code: string, breakpoints: number[], stopOnEntry = false): Promise<DebugProtocol.SetBreakpointsResponse> {
+    let program = programFile(code);
+    await client.request("initialize", { adapterID: "tranquility" });
+    let launched = client.request("launch", { program: program, stopOnEntry: stopOnEntry });
+    await client.event("initialized");
+    let response = await client.request("setBreakpoints", { source: { path: program }, breakpoints: breakpoints.map(line => ({ line: line })) });
+    await client.request("configurationDone");
+    assert.strictEqual((await launched).success, true);
+    return response as DebugProtocol.SetBreakpointsResponse;
+}
+
+let code = [
+    "var total",
+    "",
+    "fun add(n) {",
+    "    var doubled",
+    "    doubled : .n * 2",
+    "    total : .total + .doubled",
+    "}",
+    "",
+    "fun init() {",
+    "    add(3)",
+    "    add(4)",
+    "    iprint(.total)",
+    "}",
+    ""
+].join("\n");
+
+describe("TranquilityDebugSession", () => {
+    it("verifies breakpoints on lines with code", async () => {
+        let client = new DebugClient();
+        let response = await launch(client, code, [2, 6]);
+        assert.deepStrictEqual(response.body.breakpoints.map(breakpoint => breakpoint.verified), [false, true]);
+        await client.request("disconnect");
+    });
+
+    it("stops at breakpoints and shows the stack and variables", async () => {
+        let client = new DebugClient();
+        await launch(client, code, [6]);
+        assert.strictEqual((await client.event("stopped")).body.reason, "breakpoint");
+
+        let stack = await client.request("stackTrace", { threadId: 1 }) as DebugProtocol.StackTraceResponse;
+        assert.deepStrictEqual(stack.body.stackFrames.map(frame => [frame.name, frame.line]), [["add", 6], ["init", 10]]);
+
+        let scopes = await client.request("scopes", { frameId: 0 }) as DebugProtocol.ScopesResponse;
+        let values = async (index: number) => {
+            let response = await client.request("variables", { variablesReference: scopes.body.scopes[index].variablesReference }) as DebugProtocol.VariablesResponse;
+            return response.body.variables.map(variable => [variable.name, variable.value]);
+        };
+        assert.deepStrictEqual(await values(0), [["n", "3"]]);
+        assert.deepStrictEqual(await values(1), [["doubled", "6"]]);
+        assert.deepStrictEqual(await values(2), [["total", "0"]]);
+
+        client.send("continue", { threadId: 1 });
+        assert.strictEqual((await client.event("stopped")).body.reason, "breakpoint");
+        client.send("setBreakpoints", { source: { path: "program.t" }, breakpoints: [] });
+        client.send("continue", { threadId: 1 });
+        await client.event("terminated");
+        assert.strictEqual(client.output, "14");
+    });
+
+    it("steps over and into calls", async () => {
+        let client = new DebugClient();
+        await launch(client, code, [], true);
+        assert.strictEqual((await client.event("stopped")).body.reason, "entry");
+
+        let line = async () => ((await client.request("stackTrace", { threadId: 1 })) as DebugProtocol.StackTraceResponse).body.stackFrames[0].line;
+        assert.strictEqual(await line(), 10);
+        client.send("next", { threadId: 1 });
+        await client.event("stopped");
+        assert.strictEqual(await line(), 11);
+        client.send("stepIn", { threadId: 1 });
+        await client.event("stopped");
+        assert.strictEqual(await line(), 5);
+
+        // Stepping out stops on the rest of the line that made the call
+        client.send("stepOut", { threadId: 1 });
+        await client.event("stopped");
+        assert.strictEqual(await line(), 11);
+        client.send("next", { threadId: 1 });
+        await client.event("stopped");
+        assert.strictEqual(await line(), 12);
+        await client.request("disconnect");
+    });
+
+    it("reports runtime errors and ends the session", async () => {
+        let client = new DebugClient();
+        await launch(client, "fun init() {\n    setlabel(5, \"x\")\n}\n", []);
+        await client.event("terminated");
+        assert.match(client.output, /There is no label with the identifier 5/);
+    });
+
+    it("refuses to debug a program with errors", async () => {
+        let client = new DebugClient();
+        await client.request("initialize", { adapterID: "tranquility" });
+        let response = await client.request("launch", { program: programFile("fun init() {\n    x : 1\n}\n") });
+        assert.strictEqual(response.success, false);
+        assert.match(response.message ?? "", /Cannot debug program\.t: Variable "x" is undefined \(line 2\)/);
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { findProblems } from "../src/diagnostics";
+import { Severity } from "../src/parser";
+
+/**
+ * Finds the problems in a program while recording anything written to standard output, which is the language server's
+ * connection.
+ *
+ * @param code The source code to check
+ *
+ * @returns The line, message and severity of each problem, and the text written to standard output.
+ */
+function check(code: string): { problems: [number, string, Severity][], stdout: string } {
+    let stdout = "";
+    let write = process.stdout.write;
+    process.stdout.write = ((text: string) => {
+        stdout += text;
+        return true;
+    }) as typeof process.stdout.write;
+    try {
+        let problems = findProblems(code).map(problem => [problem.range.start.line, problem.message, problem.severity] as [number, string, Severity]);
+        return { problems: problems, stdout: stdout };
+    }
+    finally {
+        process.stdout.write = write;
+    }
+}
+
+describe("findProblems", () => {
+    it("reports unrecognized tokens", () => {
+        assert.deepStrictEqual(check("fun init() {\n    iprint(1);\n}\n").problems, [
+            [1, "Semicolons are not allowed in Tranquility. Simply end statements with a new line.", Severity.Error]
+        ]);
+    });
+
+    it("reports unused declarations in programs without errors", () => {
+        assert.deepStrictEqual(check("var unused\n\nfun init() {\n    iprint(1)\n}\n").problems, [
+            [0, "Variable \"unused\" is declared but never used", Severity.Warning]
+        ]);
+    });
+
+    it("reports unused declarations alongside errors that did not skip any code", () => {
+        assert.deepStrictEqual(check("var unused\n\nfun init() {\n    missing : 1\n}\n").problems, [
+            [3, "Variable \"missing\" is undefined", Severity.Error],
+            [0, "Variable \"unused\" is declared but never used", Severity.Warning]
+        ]);
+    });
+
+    it("does not report unused declarations when code was skipped after a syntax error", () => {
+        assert.deepStrictEqual(check("var used\n\nfun init() {\n    iprint(.used +)\n}\n").problems.map(([line, , severity]) => [line, severity]), [[3, Severity.Error]]);
+    });
+
+    it("reports empty parentheses without writing to standard output", () => {
+        let { problems, stdout } = check("var x\n\nfun init() {\n    x : ()\n}\n");
+        assert.strictEqual(stdout, "");
+        assert.deepStrictEqual(problems.map(([line, message]) => [line, message]), [[3, "Unexpected token \")\" - Expected expression."]]);
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { formatCode } from "../src/formatter";
+
+let messy = [
+    "var a,b   # globals",
+    "",
+    "",
+    "",
+    "fun add(x,y)",
+    "{",
+    "return .x+.y # sum",
+    "}",
+    "fun init() {",
+    "  # start",
+    "  a:-1",
+    "    if .a<0 {",
+    "  b:add(.a,2)",
+    "  }",
+    "  else {",
+    "  b:~.a",
+    "  }",
+    "}",
+    ""
+].join("\n");
+
+let formatted = [
+    "var a, b # globals",
+    "",
+    "fun add(x, y) {",
+    "    return .x + .y # sum",
+    "}",
+    "",
+    "fun init() {",
+    "    # start",
+    "    a : -1",
+    "    if .a < 0 {",
+    "        b : add(.a, 2)",
+    "    }",
+    "    else {",
+    "        b : ~.a",
+    "    }",
+    "}",
+    ""
+].join("\n");
+
+describe("formatCode", () => {
+    it("indents blocks, spaces operators and separates functions", () => {
+        assert.strictEqual(formatCode(messy), formatted);
+    });
+
+    it("keeps comments where they were written", () => {
+        let comments = formatCode(messy).split("\n").filter(line => line.includes("#")).map(line => line.trim());
+        assert.deepStrictEqual(comments, ["var a, b # globals", "return .x + .y # sum", "# start"]);
+    });
+
+    it("does not change formatted code", () => {
+        assert.strictEqual(formatCode(formatted), formatted);
+        assert.strictEqual(formatCode(formatCode(messy)), formatCode(messy));
+    });
+
+    it("indents with the given text", () => {
+        assert.strictEqual(formatCode("fun init() {\nnl()\n}\n", "\t"), "fun init() {\n\tnl()\n}\n");
+    });
+
+    it("reindents lines with unrecognized tokens without changing them", () => {
+        assert.strictEqual(formatCode("fun init() {\n  x : @@ 1\n  y:2\n}\n"), "fun init() {\n    x : @@ 1\n    y : 2\n}\n");
+    });
+
+    it("leaves code with carriage returns alone", () => {
+        let code = "fun init() {\r\n  iprint(1)\r\n}\r\n";
+        assert.strictEqual(formatCode(code), code);
+    });
+});
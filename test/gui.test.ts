@@ -0,0 +1,60 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import MTVM from "../lib/MTVM";
+import { HeadlessGui } from "../lib/gui";
+import { ScriptedHost } from "../lib/host";
+import Compiler from "../src/compiler";
+import tokenize from "../src/lexer";
+import Parser from "../src/parser";
+
+describe("HeadlessGui", () => {
+    it("runs a GUI program and calls back into it when clicked", async () => {
+        let code = [
+            "var label, table, clicks",
+            "",
+            "fun count() {",
+            "    var text",
+            "    text : alloc(10)",
+            "    clicks : .clicks + 1",
+            "    i2s(.text, .clicks)",
+            "    setlabel(.label, .text)",
+            "}",
+            "",
+            "fun cell(row, column) {",
+            "    setcell(.table, .row, .column, \"x\")",
+            "    setcellcolor(.table, .row, .column, \"red\")",
+            "    return .row * 10 + .column",
+            "}",
+            "",
+            "fun init() {",
+            "    label : makelabel(\"0\")",
+            "    button(\"+\", count)",
+            "    table : maketable(2, 2, cell)",
+            "}",
+            ""
+        ].join("\n");
+        let gui = new HeadlessGui();
+        await new MTVM(new Compiler(new Parser(tokenize(code)).parse()).compile(), new ScriptedHost([], gui)).run();
+
+        await gui.click(0);
+        await gui.click(0);
+        assert.strictEqual(await gui.clickCell(0, 1, 0), 10);
+        assert.deepStrictEqual(gui.widgets.map(widget => widget.kind), ["label", "button", "table"]);
+        assert.strictEqual(gui.toHTML(), [
+            "<label id=lab0>2</label>",
+            "<button id=but0>+</button>",
+            "<table id=tab0>",
+            "<tr>", "<td></td>", "<td></td>", "</tr>",
+            "<tr>", "<td style=\"background-color:red\">x</td>", "<td></td>", "</tr>",
+            "</table>",
+            ""
+        ].join("\n"));
+    });
+
+    it("rejects widgets that do not exist", () => {
+        let gui = new HeadlessGui();
+        gui.maketable(1, 1, async () => 0);
+        assert.throws(() => gui.setlabel(0, "x"), /There is no label with the identifier 0/);
+        assert.throws(() => gui.setcell(0, 1, 0, "x"), /Table 0 has no cell at row 1, column 0/);
+    });
+});
@@ -0,0 +1,37 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { provideInlayHints } from "../src/hints";
+
+let code = [
+    "var name, anything",
+    "",
+    "fun greet(who) {",
+    "    sprint(.who)",
+    "    return 1",
+    "}",
+    "",
+    "fun init() {",
+    "    name : \"bob\"",
+    "    greet(.name)",
+    "}",
+    ""
+].join("\n");
+let document = TextDocument.create("file:///test.t", "tranquility", 1, code);
+
+describe("provideInlayHints", () => {
+    it("shows the known types of variables, parameters and return values", () => {
+        let hints = provideInlayHints(document, Range.create(0, 0, 12, 0));
+        assert.deepStrictEqual(hints.map(hint => [hint.position.line, hint.position.character, hint.label]), [
+            [0, 8, ": string"],
+            [2, 13, ": string"],
+            [2, 14, " -> integer"],
+            [7, 10, " -> void"]
+        ]);
+    });
+
+    it("only shows hints inside the visible range", () => {
+        assert.deepStrictEqual(provideInlayHints(document, Range.create(2, 0, 5, 0)).map(hint => hint.label), [": string", " -> integer"]);
+    });
+});
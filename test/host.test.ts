@@ -0,0 +1,26 @@
+import * as assert from "assert";
+import { spawnSync } from "child_process";
+import { describe, it } from "node:test";
+import { ScriptedHost } from "../lib/host";
+
+describe("ScriptedHost", () => {
+    it("records output and prompts and returns its input lines in order", async () => {
+        let host = new ScriptedHost(["a"]);
+        host.write("x");
+        assert.strictEqual(await host.readLine("? "), "a");
+        assert.strictEqual(await host.readLine("? "), "");
+        assert.strictEqual(host.output, "x? ? ");
+    });
+});
+
+describe("TerminalHost", () => {
+    it("returns empty lines for reads after standard input has closed", () => {
+        let script = `
+            let { TerminalHost } = require(${JSON.stringify(require.resolve("../lib/host"))});
+            let host = new TerminalHost();
+            host.readLine("").then(() => host.readLine("")).then(line => process.stdout.write("done:" + JSON.stringify(line)));
+        `;
+        let result = spawnSync(process.execPath, ["-e", script], { input: "", encoding: "utf8", timeout: 10000 });
+        assert.strictEqual(result.stdout, "done:\"\"");
+    });
+});
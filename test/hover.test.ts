@@ -0,0 +1,55 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { MarkupContent, Position } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { provideHover } from "../src/hover";
+
+let code = [
+    "var total",
+    "",
+    "# Adds a number to the total.",
+    "# Returns the new total.",
+    "fun add(n) {",
+    "    total : .total + .n",
+    "    return .total",
+    "}",
+    "",
+    "fun init() {",
+    "    iprint(add(2))",
+    "}",
+    ""
+].join("\n");
+let document = TextDocument.create("file:///test.t", "tranquility", 1, code);
+
+/**
+ * Hovers over a position in the document.
+ *
+ * @param line The line of the cursor
+ * @param character The column of the cursor
+ *
+ * @returns The Markdown shown, or `null` if there is no hover.
+ */
+function hoverAt(line: number, character: number): string | null {
+    let hover = provideHover(document, Position.create(line, character));
+    return hover && (hover.contents as MarkupContent).value;
+}
+
+describe("provideHover", () => {
+    it("shows the signature and documentation of user-defined functions", () => {
+        assert.strictEqual(hoverAt(10, 12), "\n```\nfun add(n: integer) -> any\n```\nAdds a number to the total.\nReturns the new total.");
+    });
+
+    it("shows the type and declaration of variables and parameters", () => {
+        assert.strictEqual(hoverAt(5, 23), "\n```\n(parameter) n: integer\n```\nParameter of `add`, declared on line 5");
+        assert.strictEqual(hoverAt(0, 5), "\n```\nvar total: any\n```\nGlobal variable, declared on line 1");
+    });
+
+    it("describes built-in functions and keywords", () => {
+        assert.match(hoverAt(10, 6)!, /iprint\(number: Integer\) -> void/);
+        assert.match(hoverAt(4, 1)!, /fun <name: Identifier>/);
+    });
+
+    it("shows nothing for other text", () => {
+        assert.strictEqual(hoverAt(1, 0), null);
+    });
+});
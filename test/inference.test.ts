@@ -0,0 +1,52 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { describeType, inferTypes } from "../src/inference";
+
+describe("TypeInference", () => {
+    it("infers the types of variables, parameters and return values", () => {
+        let code = [
+            "var name, count",
+            "",
+            "fun greet(who) {",
+            "    sprint(.who)",
+            "    return 1",
+            "}",
+            "",
+            "fun init() {",
+            "    name : \"bob\"",
+            "    count : greet(.name)",
+            "}",
+            ""
+        ].join("\n");
+        let { declarations, types } = inferTypes(code);
+        assert.deepStrictEqual(declarations.map(declaration => describeType(declaration, types)), [
+            "var name: string",
+            "var count: integer",
+            "fun greet(who: string) -> integer",
+            "(parameter) who: string",
+            "fun init() -> void"
+        ]);
+        assert.deepStrictEqual(types.errors, []);
+    });
+
+    it("reports values that are used in a way their type does not allow", () => {
+        let code = [
+            "var a, b",
+            "",
+            "fun f() {",
+            "    nl()",
+            "}",
+            "",
+            "fun init() {",
+            "    a : 5",
+            "    b : ..a",
+            "    a : f()",
+            "}",
+            ""
+        ].join("\n");
+        assert.deepStrictEqual(inferTypes(code).types.errors.map(error => [error.token.line, error.message]), [
+            [8, "Cannot dereference an integer. Only addresses can be dereferenced."],
+            [9, "The function \"f\" does not return a value"]
+        ]);
+    });
+});
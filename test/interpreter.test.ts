@@ -0,0 +1,95 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import MTVM from "../lib/MTVM";
+import { HeadlessGui } from "../lib/gui";
+import { ScriptedHost } from "../lib/host";
+import Compiler from "../src/compiler";
+import Interpreter from "../src/interpreter";
+import tokenize from "../src/lexer";
+import Parser from "../src/parser";
+
+/**
+ * Runs a program on both the interpreter and MTVM.
+ *
+ * @param code The source code of the program
+ * @param input The lines the program reads
+ *
+ * @returns What each of them wrote and their memory afterwards.
+ */
+async function runBoth(code: string, input: string[] = []): Promise<{ output: string, memory: number[] }[]> {
+    let program = new Parser(tokenize(code)).parse();
+    let interpreterHost = new ScriptedHost([...input]);
+    let interpreter = new Interpreter(program, interpreterHost);
+    await interpreter.run();
+    let vmHost = new ScriptedHost([...input]);
+    let vm = new MTVM(new Compiler(program).compile(), vmHost);
+    await vm.run();
+    return [{ output: interpreterHost.output, memory: interpreter.memory }, { output: vmHost.output, memory: vm.memory }];
+}
+
+describe("Interpreter", () => {
+    it("runs programs the same way as the compiler and MTVM", async () => {
+        let programs = [
+            [
+                "fun fact(n) {",
+                "    if .n < 2 {",
+                "        return 1",
+                "    }",
+                "    return .n * fact(.n - 1)",
+                "}",
+                "",
+                "fun init() {",
+                "    var i",
+                "    i : 1",
+                "    loop {",
+                "        iprint(fact(.i))",
+                "        nl()",
+                "        i : .i + 1",
+                "        until .i > 5",
+                "    }",
+                "}",
+                ""
+            ],
+            [
+                "var buf, count",
+                "",
+                "fun init() {",
+                "    buf : alloc(20)",
+                "    sread(.buf, \"name? \")",
+                "    count : iread(-1)",
+                "    loop {",
+                "        until .count < 1",
+                "        sprint(.buf)",
+                "        count : .count - 1",
+                "    }",
+                "    i2s(.buf, 7 & ~2 | 8)",
+                "    sprint(.buf)",
+                "}",
+                ""
+            ]
+        ];
+        for (let code of programs) {
+            let [interpreted, compiled] = await runBoth(code.join("\n"), ["ab", "3"]);
+            assert.strictEqual(interpreted.output, compiled.output);
+            assert.deepStrictEqual(interpreted.memory, compiled.memory);
+        }
+    });
+
+    it("reports errors in GUI callbacks through the host", async () => {
+        let code = [
+            "fun fail() {",
+            "    setlabel(5, \"x\")",
+            "}",
+            "",
+            "fun init() {",
+            "    button(\"go\", fail)",
+            "}",
+            ""
+        ].join("\n");
+        let gui = new HeadlessGui();
+        let host = new ScriptedHost([], gui);
+        await new Interpreter(new Parser(tokenize(code)).parse(), host).run();
+        assert.strictEqual(await gui.click(0), 0);
+        assert.match(host.output, /There is no label with the identifier 5/);
+    });
+});
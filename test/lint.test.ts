@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+
+let root = fs.mkdtempSync(path.join(os.tmpdir(), "tranquility-"));
+fs.writeFileSync(path.join(root, "clean.t"), "fun init() {\n    iprint(1)\n}\n");
+fs.writeFileSync(path.join(root, "broken.t"), "var unused\n\nfun init() {\n    iprint(.missing)\n}\n");
+
+/**
+ * Runs the linter in the folder with the test programs.
+ *
+ * @param args The command line arguments
+ *
+ * @returns The exit code and what the linter printed.
+ */
+function lint(...args: string[]): { status: number | null, stdout: string, stderr: string } {
+    let result = spawnSync(process.execPath, [require.resolve("../src/lint"), ...args], { cwd: root, encoding: "utf8", timeout: 10000 });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe("tranq-lint", () => {
+    it("prints nothing and exits with 0 when there are no errors", () => {
+        assert.deepStrictEqual(lint("clean.t"), { status: 0, stdout: "", stderr: "" });
+    });
+
+    it("prints one line per problem and exits with 1 when there are errors", () => {
+        let result = lint("broken.t");
+        assert.strictEqual(result.status, 1);
+        assert.strictEqual(result.stdout, [
+            "broken.t:1:5: warning: Variable \"unused\" is declared but never used",
+            "broken.t:4:13: error: Variable \"missing\" is undefined",
+            ""
+        ].join("\n"));
+    });
+
+    it("prints problems as JSON", () => {
+        let result = lint("--format", "json", "*.t");
+        assert.strictEqual(result.status, 1);
+        assert.deepStrictEqual(JSON.parse(result.stdout), [
+            { file: "broken.t", line: 1, column: 5, endLine: 1, endColumn: 11, severity: "warning", message: "Variable \"unused\" is declared but never used" },
+            { file: "broken.t", line: 4, column: 13, endLine: 4, endColumn: 20, severity: "error", message: "Variable \"missing\" is undefined" }
+        ]);
+    });
+
+    it("prints problems as a SARIF log", () => {
+        let log = JSON.parse(lint("--format=sarif", "broken.t").stdout);
+        assert.strictEqual(log.version, "2.1.0");
+        assert.strictEqual(log.runs[0].tool.driver.name, "tranq-lint");
+        assert.deepStrictEqual(log.runs[0].results.map((result: any) => [result.level, result.locations[0].physicalLocation.artifactLocation.uri, result.locations[0].physicalLocation.region.startLine]), [
+            ["warning", "broken.t", 1],
+            ["error", "broken.t", 4]
+        ]);
+    });
+
+    it("exits with 2 when the arguments are invalid", () => {
+        assert.strictEqual(lint().status, 2);
+        assert.strictEqual(lint("--format", "xml", "clean.t").status, 2);
+        assert.strictEqual(lint("missing/*.t").status, 2);
+        assert.strictEqual(lint("missing.t").status, 2);
+    });
+});
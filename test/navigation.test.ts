@@ -0,0 +1,105 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { Location, Position } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { prepareRename, provideDefinition, provideReferences, provideRenameEdits } from "../src/navigation";
+
+let code = [
+    "var total",
+    "",
+    "fun add(n) {",
+    "    total : .total + .n",
+    "}",
+    "",
+    "fun init() {",
+    "    var total",
+    "    add(1)",
+    "    total : 2",
+    "}",
+    ""
+].join("\n");
+let document = TextDocument.create("file:///test.t", "tranquility", 1, code);
+
+/**
+ * Describes locations as the line and column they start at.
+ *
+ * @param locations The locations
+ *
+ * @returns The positions.
+ */
+function starts(locations: Location[] | Location | null): [number, number][] {
+    return ([] as Location[]).concat(locations ?? []).map(location => [location.range.start.line, location.range.start.character]);
+}
+
+describe("provideDefinition", () => {
+    it("finds the declaration a reference is bound to", () => {
+        assert.deepStrictEqual(starts(provideDefinition(document, Position.create(3, 15))), [[0, 4]]);
+        assert.deepStrictEqual(starts(provideDefinition(document, Position.create(3, 22))), [[2, 8]]);
+        assert.deepStrictEqual(starts(provideDefinition(document, Position.create(8, 5))), [[2, 4]]);
+    });
+
+    it("finds local variables that shadow globals", () => {
+        assert.deepStrictEqual(starts(provideDefinition(document, Position.create(9, 4))), [[7, 8]]);
+    });
+
+    it("finds nothing for keywords", () => {
+        assert.strictEqual(provideDefinition(document, Position.create(6, 1)), null);
+    });
+});
+
+describe("provideReferences", () => {
+    it("finds every reference to a declaration", () => {
+        assert.deepStrictEqual(starts(provideReferences(document, Position.create(0, 5), true)), [[0, 4], [3, 4], [3, 13]]);
+        assert.deepStrictEqual(starts(provideReferences(document, Position.create(2, 4), false)), [[8, 4]]);
+    });
+});
+
+/**
+ * Renames the identifier at a position and applies the edit.
+ *
+ * @param code The source code containing the identifier
+ * @param line The line of the identifier
+ * @param character The column of the identifier
+ * @param newName The new name
+ *
+ * @returns The renamed source code.
+ */
+function rename(code: string, line: number, character: number, newName: string): string {
+    let document = TextDocument.create("file:///test.t", "tranquility", 1, code);
+    let edit = provideRenameEdits(document, Position.create(line, character), newName);
+    return TextDocument.applyEdits(document, edit.changes![document.uri]);
+}
+
+describe("provideRenameEdits", () => {
+    it("renames a declaration and every reference to it", () => {
+        assert.strictEqual(rename(code, 3, 22, "amount"), code.replace("add(n)", "add(amount)").replace(".total + .n", ".total + .amount"));
+        assert.strictEqual(rename(code, 8, 4, "increase"), code.replace("fun add", "fun increase").replace("add(1)", "increase(1)"));
+    });
+
+    it("refuses names that would change what other identifiers refer to", () => {
+        assert.throws(() => rename(code, 2, 8, "total"), /Renaming "n" to "total" would conflict with another declaration in scope/);
+    });
+
+    it("refuses names that are not identifiers, keywords or built-in functions", () => {
+        assert.throws(() => rename(code, 2, 8, "2n"), /"2n" is not a valid identifier/);
+        assert.throws(() => rename(code, 2, 8, "loop"), /"loop" is a keyword/);
+        assert.throws(() => rename(code, 2, 8, "iprint"), /"iprint" is the name of a built-in function/);
+    });
+
+    it("renames one of two duplicate declarations to fix the error", () => {
+        let duplicates = "var x, x\n\nfun init() {\n    x : 1\n}\n";
+        assert.strictEqual(rename(duplicates, 0, 7, "y"), "var x, y\n\nfun init() {\n    x : 1\n}\n");
+    });
+});
+
+describe("prepareRename", () => {
+    it("returns the range and name of the identifier", () => {
+        let document = TextDocument.create("file:///test.t", "tranquility", 1, code);
+        assert.deepStrictEqual(prepareRename(document, Position.create(3, 14)), { range: { start: { line: 3, character: 13 }, end: { line: 3, character: 18 } }, placeholder: "total" });
+    });
+
+    it("refuses built-in functions", () => {
+        let document = TextDocument.create("file:///test.t", "tranquility", 1, "fun init() {\n    nl()\n}\n");
+        assert.throws(() => prepareRename(document, Position.create(1, 5)), /Built-in functions cannot be renamed/);
+    });
+});
@@ -0,0 +1,60 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import tokenize from "../src/lexer";
+import Parser from "../src/parser";
+
+/**
+ * Parses a program and collects the messages of its errors.
+ *
+ * @param code The source code of the program
+ *
+ * @returns The line and message of each error, in the order they were found.
+ */
+function errorsIn(code: string): [number, string][] {
+    let parser = new Parser(tokenize(code));
+    parser.parse();
+    return parser.errors.map(error => [error.token.line, error.message]);
+}
+
+describe("Parser", () => {
+    it("parses a program without errors", () => {
+        assert.deepStrictEqual(errorsIn("var a\n\nfun init() {\n    a : (1 + 2) * 3\n    iprint(.a)\n}\n"), []);
+    });
+
+    it("keeps parsing after a statement with an error", () => {
+        let errors = errorsIn("fun init() {\n    iprint(1 +)\n    iprint(2)\n    y : 3\n}\n");
+        assert.deepStrictEqual(errors.map(([line]) => line), [1, 3]);
+        assert.match(errors[1][1], /Variable "y" is undefined/);
+    });
+
+    it("reports empty parentheses and keeps parsing", () => {
+        let errors = errorsIn("var x\n\nfun init() {\n    x : ()\n    y : 1\n}\n");
+        assert.deepStrictEqual(errors.map(([line]) => line), [3, 4]);
+        assert.match(errors[0][1], /Expected expression/);
+        assert.match(errors[1][1], /Variable "y" is undefined/);
+    });
+
+    it("accepts -1 as the prompt of iread and sread", () => {
+        assert.deepStrictEqual(errorsIn("var buf\n\nfun init() {\n    buf : alloc(20)\n    sread(.buf, -1)\n    iprint(iread(-1))\n}\n"), []);
+    });
+
+    it("ends the scope of a function that is missing its closing brace", () => {
+        let code = "fun broken() {\n    var secret\n    secret : 1\n\nfun other() {\n    var mine\n    mine : 1\n}\n";
+        let parser = new Parser(tokenize(code));
+        parser.parse();
+        assert.deepStrictEqual(parser.errors.map(error => error.message), ["Expected \"}\" before the next function declaration"]);
+        assert.deepStrictEqual(parser.declarationsAt(2, 4).declarations.map(declaration => declaration.name), ["secret", "broken", "other"]);
+        assert.deepStrictEqual(parser.declarationsAt(6, 4).declarations.map(declaration => declaration.name), ["mine", "broken", "other"]);
+
+        // After the last function, only globals are in scope
+        let after = parser.declarationsAt(8, 0);
+        assert.deepStrictEqual(after.declarations.map(declaration => declaration.name), ["broken", "other"]);
+        assert.strictEqual(after.inFunction, false);
+    });
+
+    it("resolves init to the program's own function", () => {
+        assert.deepStrictEqual(errorsIn("var ticks\n\nfun init() {\n    ticks : .ticks + 1\n    timer(10, init)\n    button(\"x\", init)\n}\n"), []);
+        assert.deepStrictEqual(errorsIn("fun init(n) {\n    if .n > 0 {\n        init(.n - 1)\n    }\n}\n"), []);
+        assert.deepStrictEqual(errorsIn("fun init() {\n}\n\nfun init() {\n}\n").map(([line]) => line), [3]);
+    });
+});
@@ -0,0 +1,51 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { Diagnostic } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { findProblems } from "../src/diagnostics";
+import { commandEdit, provideCodeActions, quickFixCommands } from "../src/quickfixes";
+
+/**
+ * Finds the quick fixes for every problem in a program.
+ *
+ * @param code The source code of the program
+ *
+ * @returns The document and the title, edits and command of each fix.
+ */
+function fixesFor(code: string) {
+    let document = TextDocument.create("file:///test.t", "tranquility", 1, code);
+    let diagnostics: Diagnostic[] = findProblems(code).map(problem => ({ range: problem.range, message: problem.message, severity: problem.severity }));
+    let fixes = provideCodeActions(document, diagnostics).map(action => ({
+        title: action.title,
+        code: action.edit ? TextDocument.applyEdits(document, action.edit.changes![document.uri]) : undefined,
+        command: action.command
+    }));
+    return { document: document, fixes: fixes };
+}
+
+describe("provideCodeActions", () => {
+    it("removes semicolons and replaces equal signs", () => {
+        let { fixes } = fixesFor("var a\n\nfun init() {\n    a : 1;\n    a = 2\n}\n");
+        assert.deepStrictEqual(fixes.map(fix => [fix.title, fix.code]), [
+            ["Remove the semicolon", "var a\n\nfun init() {\n    a : 1\n    a = 2\n}\n"],
+            ["Replace \"=\" with \":\"", "var a\n\nfun init() {\n    a : 1;\n    a : 2\n}\n"]
+        ]);
+    });
+
+    it("declares undefined variables as locals or globals", () => {
+        let { fixes } = fixesFor("var a\n\nfun init() {\n    a : 1\n    b : 2\n}\n");
+        assert.deepStrictEqual(fixes.map(fix => [fix.title, fix.code]), [
+            ["Declare \"b\" as a local variable of \"init\"", "var a\n\nfun init() {\n    var b\n    a : 1\n    b : 2\n}\n"],
+            ["Declare \"b\" as a global variable", "var a, b\n\nfun init() {\n    a : 1\n    b : 2\n}\n"]
+        ]);
+    });
+
+    it("converts line endings through a command", () => {
+        let { document, fixes } = fixesFor("fun init() {\r\n    nl()\r\n}\r\n");
+        assert.deepStrictEqual(fixes.map(fix => fix.title), ["Convert line endings from CRLF to LF"]);
+        let command = fixes[0].command!;
+        assert.strictEqual(command.command, quickFixCommands.convertToLF);
+        let edit = commandEdit(document, command.command, command.arguments!.slice(1))!;
+        assert.strictEqual(TextDocument.applyEdits(document, edit.changes![document.uri]), "fun init() {\n    nl()\n}\n");
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from "assert";
+import { spawnSync } from "child_process";
+import { describe, it } from "node:test";
+
+/**
+ * Runs the REPL with piped input.
+ *
+ * @param lines The lines of input
+ *
+ * @returns The exit code and what the REPL printed.
+ */
+function repl(...lines: string[]): { status: number | null, stdout: string } {
+    let result = spawnSync(process.execPath, [require.resolve("../src/repl")], { input: lines.join("\n") + "\n", encoding: "utf8", timeout: 10000 });
+    return { status: result.status, stdout: result.stdout };
+}
+
+describe("tranq-repl", () => {
+    it("runs piped input without prompting", () => {
+        let result = repl(
+            "var x",
+            "x : 2",
+            ".x + 3",
+            "fun double(n) {",
+            "    return .n * 2",
+            "}",
+            "",
+            "double(.x)",
+            "iprint(7)",
+            "nl()"
+        );
+        assert.deepStrictEqual(result, { status: 0, stdout: "5\n4\n7\n" });
+    });
+
+    it("reports errors at the line of the input they are on", () => {
+        assert.strictEqual(repl(".missing", ":bogus").stdout, [
+            "1:2: error: Variable \"missing\" is undefined",
+            "Unknown command \":bogus\". Type :help for a list of commands.",
+            ""
+        ].join("\n"));
+    });
+
+    it("writes the prompts of programs that read input", () => {
+        assert.strictEqual(repl("iprint(iread(-1) + 1)", "41").stdout, "Integer input:42\n");
+    });
+
+    it("keeps memory between inputs until it is reset", () => {
+        let padding = " ".repeat(51);
+        assert.strictEqual(repl("i2s(10, 65)", ":mem 10 1", ":reset", ":mem 10 1").stdout, [
+            `   10:     54${padding}6`,
+            `   10:      0${padding}.`,
+            ""
+        ].join("\n"));
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { Position, SignatureHelp } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { provideSignatureHelp } from "../src/signatures";
+
+/**
+ * Shows the signature help at a position in some source code.
+ *
+ * @param code The source code
+ * @param line The line of the cursor
+ * @param character The column of the cursor
+ *
+ * @returns The signature help, or `null` if there is none at the position.
+ */
+function signatureHelp(code: string, line: number, character: number): SignatureHelp | null {
+    return provideSignatureHelp(TextDocument.create("file:///test.t", "tranquility", 1, code), Position.create(line, character));
+}
+
+let code = [
+    "# Adds two numbers",
+    "fun add(a, b) {",
+    "    return .a + .b",
+    "}",
+    "",
+    "fun init() {",
+    "    iprint(add(1, 2))",
+    "    sread(alloc(5), -1)",
+    "}",
+    ""
+].join("\n");
+
+describe("provideSignatureHelp", () => {
+    it("shows the signature of a user-defined function and highlights the current argument", () => {
+        let help = signatureHelp(code, 6, 18)!;
+        assert.strictEqual(help.signatures[0].label, "fun add(a, b)");
+        assert.deepStrictEqual(help.signatures[0].parameters!.map(parameter => parameter.label), [[8, 9], [11, 12]]);
+        assert.deepStrictEqual(help.signatures[0].documentation, { kind: "markdown", value: "Adds two numbers" });
+        assert.strictEqual(help.activeParameter, 1);
+    });
+
+    it("shows the signature of a built-in function around a nested call", () => {
+        let help = signatureHelp(code, 7, 20)!;
+        assert.strictEqual(help.signatures[0].label, "fun sread(address: Address<String>, prompt: String | Integer) -> void");
+        assert.strictEqual(help.activeParameter, 1);
+        assert.strictEqual(signatureHelp(code, 6, 11)!.signatures[0].label, "fun iprint(number: Integer) -> void");
+    });
+
+    it("shows nothing outside of argument lists", () => {
+        assert.strictEqual(signatureHelp(code, 2, 8), null);
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { DocumentSymbol } from "vscode-languageserver";
+import { documentSymbols } from "../src/symbols";
+
+/**
+ * Describes symbols as their names, details and children.
+ *
+ * @param symbols The symbols
+ *
+ * @returns The outline, as nested arrays.
+ */
+function outline(symbols: DocumentSymbol[]): unknown[] {
+    return symbols.map(symbol => symbol.children?.length ? [symbol.name, symbol.detail, outline(symbol.children)] : [symbol.name, symbol.detail]);
+}
+
+describe("documentSymbols", () => {
+    it("lists globals and functions with their parameters and locals", () => {
+        let code = "var a, b\n\nfun add(x, y) {\n    var sum\n    sum : .x + .y\n    return .sum\n}\n\nfun init() {\n}\n";
+        let symbols = documentSymbols(code);
+        assert.deepStrictEqual(outline(symbols), [
+            ["a", "global"],
+            ["b", "global"],
+            ["add", "(x, y)", [["x", "parameter"], ["y", "parameter"], ["sum", "local"]]],
+            ["init", "()"]
+        ]);
+        assert.deepStrictEqual(symbols[2].range, { start: { line: 2, character: 0 }, end: { line: 6, character: 1 } });
+        assert.deepStrictEqual(symbols[2].selectionRange, { start: { line: 2, character: 4 }, end: { line: 2, character: 7 } });
+    });
+
+    it("lists the functions of a program with errors", () => {
+        assert.deepStrictEqual(outline(documentSymbols("fun broken() {\n    x : (\n}\n\nfun init() {\n}\n")), [["broken", "()"], ["init", "()"]]);
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+import { pathToFileURL } from "url";
+import { SymbolInformation, TextDocuments } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { WorkspaceSymbolIndex } from "../src/symbols";
+
+/**
+ * Creates a workspace folder with the given files.
+ *
+ * @param files The contents of each file, by relative path
+ *
+ * @returns The path of the folder.
+ */
+function workspace(files: { [file: string]: string }): string {
+    let root = fs.mkdtempSync(path.join(os.tmpdir(), "tranquility-"));
+    Object.entries(files).forEach(([file, code]) => {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), code);
+    });
+    return root;
+}
+
+/**
+ * Describes symbols as their names and the files they are in.
+ *
+ * @param symbols The symbols
+ *
+ * @returns The names and file names, sorted.
+ */
+function found(symbols: SymbolInformation[]): string[] {
+    return symbols.map(symbol => `${symbol.name} ${symbol.containerName}`).sort();
+}
+
+describe("WorkspaceSymbolIndex", () => {
+    let root = workspace({
+        "main.t": "var counter\n\nfun init() {\n    countDown()\n}\n",
+        "lib/count.tranq": "fun countDown() {\n}\n",
+        "notes.txt": "fun ignored() {\n}\n",
+        "node_modules/dependency.t": "fun dependency() {\n}\n",
+        ".hidden/secret.t": "fun secret() {\n}\n"
+    });
+
+    it("indexes the Tranquility files in the workspace and matches names fuzzily", async () => {
+        let index = new WorkspaceSymbolIndex([root], new TextDocuments(TextDocument));
+        assert.deepStrictEqual(found(await index.search("")), ["countDown count.tranq", "counter main.t", "init main.t"]);
+        assert.deepStrictEqual(found(await index.search("cdn")), ["countDown count.tranq"]);
+    });
+
+    it("updates files as they are edited and deleted", async () => {
+        let index = new WorkspaceSymbolIndex([root], new TextDocuments(TextDocument));
+        let main = pathToFileURL(path.join(root, "main.t")).toString();
+        await index.search("");
+        index.index(main, "fun init() {\n}\n\nfun helper() {\n}\n");
+        assert.deepStrictEqual(found(await index.search("help")), ["helper main.t"]);
+        index.remove(main);
+        assert.deepStrictEqual(found(await index.search("")), ["countDown count.tranq"]);
+    });
+
+    it("drops files that can no longer be read", async () => {
+        let index = new WorkspaceSymbolIndex([], new TextDocuments(TextDocument));
+        let missing = pathToFileURL(path.join(root, "missing.t")).toString();
+        index.index(missing, "fun gone() {\n}\n");
+        await index.indexFile(missing);
+        assert.deepStrictEqual(await index.search(""), []);
+    });
+});